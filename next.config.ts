@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The local server's models and context window are checked in the browser too (theme editor, /model,
+  // context meters), so they are inlined into both bundles when the app is built
+  env: {
+    LOCAL_LLM_MODELS: process.env.LOCAL_LLM_MODELS ?? "",
+    LOCAL_LLM_CONTEXT_WINDOW: process.env.LOCAL_LLM_CONTEXT_WINDOW ?? "",
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,98 @@
+// Minimal OpenAI-compatible server that streams deterministic tokens, for exercising the
+// `local` provider offline. Point LOCAL_LLM_BASE_URL at http://localhost:<port>/v1.
+//
+//   node scripts/mock-llm-server.mjs [port]
+
+import { createServer } from "node:http"
+
+const PORT = Number(process.argv[2] || process.env.MOCK_LLM_PORT || 11435)
+const TOKEN_DELAY_MS = Number(process.env.MOCK_LLM_TOKEN_DELAY_MS || 20)
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// The reply depends only on the model and the last user message, so runs are reproducible
+const buildReply = (model, messages) => {
+    const lastUser = [...messages].reverse().find((m) => m.role === "user")
+    const hasSystem = messages.some((m) => m.role === "system")
+    return `[${model}] ${hasSystem ? "(with system prompt) " : ""}You said: ${lastUser ? lastUser.content : "nothing"}`
+}
+
+// Split into words while keeping the whitespace, like real token deltas
+const tokenize = (text) => text.match(/\S+\s*/g) ?? []
+
+const readJson = (req) =>
+    new Promise((resolve, reject) => {
+        let body = ""
+        req.on("data", (chunk) => (body += chunk))
+        req.on("end", () => {
+            try {
+                resolve(JSON.parse(body || "{}"))
+            } catch (error) {
+                reject(error)
+            }
+        })
+    })
+
+const server = createServer(async (req, res) => {
+    if (req.method === "GET" && req.url === "/v1/models") {
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ object: "list", data: [{ id: "mock-local", object: "model", owned_by: "mock" }] }))
+        return
+    }
+
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+        res.writeHead(404, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${req.url}` } }))
+        return
+    }
+
+    let body
+    try {
+        body = await readJson(req)
+    } catch {
+        res.writeHead(400, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ error: { message: "Invalid JSON body" } }))
+        return
+    }
+
+    const model = body.model || "mock-local"
+    const messages = Array.isArray(body.messages) ? body.messages : []
+    const maxTokens = body.max_tokens ?? Infinity
+    const allTokens = tokenize(buildReply(model, messages))
+    const tokens = allTokens.slice(0, maxTokens)
+    const finishReason = tokens.length < allTokens.length ? "length" : "stop"
+    const promptTokens = messages.reduce((sum, m) => sum + tokenize(String(m.content ?? "")).length, 0)
+    const base = { id: "chatcmpl-mock", object: "chat.completion.chunk", created: 0, model }
+
+    if (!body.stream) {
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(
+            JSON.stringify({
+                ...base,
+                object: "chat.completion",
+                choices: [{ index: 0, message: { role: "assistant", content: tokens.join("") }, finish_reason: finishReason }],
+                usage: { prompt_tokens: promptTokens, completion_tokens: tokens.length, total_tokens: promptTokens + tokens.length },
+            }),
+        )
+        return
+    }
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" })
+    const send = (payload) => res.write(`data: ${JSON.stringify(payload)}\n\n`)
+
+    send({ ...base, choices: [{ index: 0, delta: { role: "assistant", content: "" }, finish_reason: null }] })
+    for (const token of tokens) {
+        await sleep(TOKEN_DELAY_MS)
+        send({ ...base, choices: [{ index: 0, delta: { content: token }, finish_reason: null }] })
+    }
+    send({ ...base, choices: [{ index: 0, delta: {}, finish_reason: finishReason }] })
+    if (body.stream_options?.include_usage) {
+        send({ ...base, choices: [], usage: { prompt_tokens: promptTokens, completion_tokens: tokens.length, total_tokens: promptTokens + tokens.length } })
+    }
+    res.write("data: [DONE]\n\n")
+    res.end()
+})
+
+server.listen(PORT, () => {
+    console.log(`Mock LLM server listening on http://localhost:${PORT}/v1`)
+})
@@ -1,96 +1,129 @@
-import { Message } from 'ai';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
+import { resolveLLMConfig } from '@/lib/llm-config';
+import { type ChatStreamEvent, createRequestAbortController, toChatStreamResponse } from '@/lib/chat-stream';
+import { MissingApiKeyError, streamCompletion } from '@/lib/llm-providers';
+import { appendMessageText, createMessage, isMessageLike, serializeMessage, updateMessageMetadata, USER_AGENT_ID } from '@/lib/messages';
+import { createSummaryMessage, fitToContext, withSummary } from '@/lib/context-budget';
+import { summarizeTurns } from '@/lib/context-summary';
+import { getSessionStore } from '@/lib/session-store';
+import type { TerminalLLM } from '@/types/terminal-types';
 
-// IMPORTANT! Set the runtime to edge
-export const runtime = 'edge';
+// Session-backed requests read and write the session store, which needs the Node.js runtime rather than edge
+export const runtime = 'nodejs';
 
-// Instantiate clients potentially without keys initially
-// Keys will be checked within the POST handler based on the provider
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY || '', // Provide default empty string
-});
+// Passes events through and stores the assistant's reply once the stream has finished, followed by
+// the new running summary if the request made one. A reply the client stopped is stored as far as it got,
+// including when the response stream is cancelled and this generator is closed between events.
+async function* recordReply(
+    events: AsyncIterable<ChatStreamEvent>,
+    sessionId: string,
+    agentId: string,
+    config: TerminalLLM,
+    signal: AbortSignal,
+): AsyncGenerator<ChatStreamEvent> {
+    let reply = createMessage({ role: 'assistant', agentId, metadata: { provider: config.provider, model: config.model } });
+    let summary;
+    let failed = false;
+    try {
+        for await (const event of events) {
+            if (event.type === 'context' && event.summary) summary = createSummaryMessage(event.summary.text, event.summary.throughId);
+            else if (event.type === 'text') reply = appendMessageText(reply, event.text);
+            else if (event.type === 'usage') reply = updateMessageMetadata(reply, { inputTokens: event.inputTokens, outputTokens: event.outputTokens });
+            else if (event.type === 'stop') reply = updateMessageMetadata(reply, { stopReason: event.reason });
+            yield event;
+        }
+    } catch (error) {
+        failed = !signal.aborted;
+        if (failed) throw error;
+    } finally {
+        if (!failed) {
+            if (signal.aborted && !reply.metadata?.stopReason) reply = updateMessageMetadata(reply, { stopReason: 'cancelled' });
+            const stored = [...(reply.content.length > 0 ? [reply] : []), ...(summary ? [summary] : [])];
+            if (stored.length > 0) {
+                await getSessionStore().appendMessages(sessionId, stored.map(serializeMessage));
+            }
+        }
+    }
+}
 
-const anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY || '', // Provide default empty string
-});
+async function* withContextEvent(context: ChatStreamEvent, events: AsyncIterable<ChatStreamEvent>): AsyncGenerator<ChatStreamEvent> {
+    yield context;
+    yield* events;
+}
 
 export async function POST(req: Request) {
     try {
-        const { messages, modelProvider } = await req.json();
-
-        // Validate provider
-        if (!['openai', 'anthropic'].includes(modelProvider)) {
-            return new Response('Invalid model provider specified. Use \'openai\' or \'anthropic\'.', { status: 400 });
-        }
+        // `messages` is the terminal's conversation as TerminalMessage objects
+        // `llm` is the terminal's full TerminalLLM config; bare `modelProvider` falls back to provider defaults
+        // With `sessionId`, only the new `message` is sent and the history comes from the session store
+        const { messages, message, sessionId, llm, modelProvider, systemPrompt } = await req.json();
 
-        // --- OpenAI ---
-        if (modelProvider === 'openai') {
-            if (!process.env.OPENAI_API_KEY) {
-                return new Response('Missing OPENAI_API_KEY environment variable', { status: 500 });
+        let history = messages;
+        let sessionLLM = llm;
+        let sessionSystemPrompt = systemPrompt;
+        let sessionAgentId = 'assistant';
+        if (sessionId !== undefined) {
+            if (typeof message !== 'string' || !message.trim()) {
+                return new Response('A non-empty message is required when sending to a session.', { status: 400 });
+            }
+            const session = await getSessionStore().get(String(sessionId));
+            if (!session) {
+                return new Response(`Session '${sessionId}' not found.`, { status: 404 });
             }
-            // Initialize client here if key exists
-            const openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-            const response = await openaiClient.chat.completions.create({ // Use the locally scoped client
-                model: 'gpt-4o', // Or your preferred OpenAI model
-                stream: true,
-                messages,
-            });
+            // Request values win so a terminal can switch models mid-session
+            sessionLLM = llm ?? session.llm;
+            sessionSystemPrompt = systemPrompt ?? session.systemPrompt;
+            sessionAgentId = session.themeId ?? sessionAgentId;
+            history = [...session.messages, serializeMessage(createMessage({ role: 'user', agentId: USER_AGENT_ID, text: message }))];
+        } else if (!Array.isArray(messages) || !messages.every(isMessageLike)) {
+            return new Response('Messages must be an array of terminal messages, or pass a sessionId and message.', { status: 400 });
+        }
 
-            // Create a native web Response with the appropriate headers
-            return new Response(response.toReadableStream(), {
-                headers: {
-                    'Content-Type': 'text/event-stream',
-                    'Cache-Control': 'no-cache, no-transform',
-                    'Connection': 'keep-alive',
-                },
-            });
+        // Validate provider, model, temperature and token limit
+        const { config, error } = resolveLLMConfig(sessionLLM, modelProvider);
+        if (error !== undefined) {
+            return new Response(error, { status: 400 });
         }
 
-        // --- Anthropic ---
-        if (modelProvider === 'anthropic') {
-            if (!process.env.ANTHROPIC_API_KEY) {
-                return new Response('Missing ANTHROPIC_API_KEY environment variable', { status: 500 });
-            }
-            // Initialize client here if key exists
-            const anthropicClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-            const response = await anthropicClient.messages.create({ // Use the locally scoped client
-                model: 'claude-3-opus-20240229', // Or your preferred Anthropic model
-                stream: true,
-                max_tokens: 1024,
-                messages: messages as Anthropic.MessageParam[], // Adjust type if necessary
-            });
+        // Aborts every provider call once the client goes away or cancels the response
+        const abort = createRequestAbortController(req.signal);
 
-            // Adapt Anthropic stream to a standard Web ReadableStream
-            const stream = new ReadableStream({
-                async start(controller) {
-                    for await (const chunk of response) {
-                        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-                            // Create a properly formatted SSE message
-                            const message = `data: ${JSON.stringify({ text: chunk.delta.text })}\n\n`;
-                            controller.enqueue(new TextEncoder().encode(message));
-                        }
-                    }
-                    // Send a done message and close
-                    controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-                    controller.close();
-                },
-            });
+        const basePrompt = typeof sessionSystemPrompt === 'string' ? sessionSystemPrompt.trim() : '';
 
-            // Return a native web Response with the appropriate headers
-            return new Response(stream, {
-                headers: {
-                    'Content-Type': 'text/event-stream',
-                    'Cache-Control': 'no-cache, no-transform',
-                    'Connection': 'keep-alive',
-                },
-            });
+        // The oldest turns that do not fit the model's context window are left out, or with the
+        // "summarize" policy folded into the running summary that is sent with the system prompt
+        const fit = fitToContext(history, config, basePrompt);
+        let system = fit.system;
+        let summary: { text: string; throughId: string } | undefined;
+        if (fit.dropped.length > 0 && config.contextPolicy === 'summarize') {
+            try {
+                const text = await summarizeTurns(config, fit.summary, fit.dropped, abort.signal);
+                if (text) {
+                    system = withSummary(basePrompt, text);
+                    summary = { text, throughId: fit.dropped[fit.dropped.length - 1].id };
+                }
+            } catch (error) {
+                if (abort.signal.aborted || error instanceof MissingApiKeyError) throw error;
+                // The reply matters more than the summary: answer from the trimmed conversation
+                console.error('Summarizing the conversation failed, trimming instead:', error);
+            }
         }
+        const context: ChatStreamEvent | undefined = fit.dropped.length > 0 ? { type: 'context', dropped: fit.dropped.length, summary } : undefined;
+
+        // Keys are checked per provider before any request is sent.
+        const completion = await streamCompletion(config, system, fit.conversation, abort.signal);
+        const events = context ? withContextEvent(context, completion) : completion;
 
-        // Should not reach here if validation works, but acts as a fallback
-        return new Response('Model provider logic fell through unexpectedly.', { status: 500 });
+        if (sessionId === undefined) {
+            return toChatStreamResponse(events, abort);
+        }
+        // The user turn is stored only once the provider has accepted the request
+        await getSessionStore().appendMessages(String(sessionId), [history[history.length - 1]]);
+        return toChatStreamResponse(recordReply(events, String(sessionId), sessionAgentId, config, abort.signal), abort);
 
     } catch (error: any) {
+        if (error instanceof MissingApiKeyError) {
+            return new Response(error.message, { status: 500 });
+        }
         console.error('Error in chat API route:', error);
         const errorMessage = error.message || 'An unexpected error occurred';
         const errorCode = error.status || 500;
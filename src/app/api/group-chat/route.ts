@@ -0,0 +1,55 @@
+import { resolveLLMConfig } from '@/lib/llm-config';
+import { createRequestAbortController, toChatStreamResponse } from '@/lib/chat-stream';
+import { type GroupChatParticipant, runGroupChat } from '@/lib/group-chat';
+import { isTurnPolicy } from '@/lib/turn-policies';
+import { isMessageLike } from '@/lib/messages';
+
+// IMPORTANT! Set the runtime to edge
+export const runtime = 'edge';
+
+export async function POST(req: Request) {
+    try {
+        // `participants` are the connected terminals' themes; `messages` is the shared transcript
+        // `policy` decides who speaks; `rounds` bounds free-for-all and moderator turns
+        const { participants, messages, userName, policy = 'round-robin', rounds } = await req.json();
+
+        if (!Array.isArray(participants) || participants.length === 0) {
+            return new Response('At least one group chat participant is required.', { status: 400 });
+        }
+        if (!Array.isArray(messages) || !messages.every(isMessageLike)) {
+            return new Response('Group chat messages must be an array of terminal messages.', { status: 400 });
+        }
+        if (!isTurnPolicy(policy)) {
+            return new Response('Invalid turn policy. Use \'round-robin\', \'moderator\', \'addressed\' or \'free-for-all\'.', { status: 400 });
+        }
+
+        // Validate every participant's LLM config up front so a bad theme fails the whole request
+        const resolved: GroupChatParticipant[] = [];
+        for (const participant of participants) {
+            if (typeof participant?.id !== 'string' || typeof participant?.senderName !== 'string') {
+                return new Response('Each participant needs a string id and senderName.', { status: 400 });
+            }
+            const { config, error } = resolveLLMConfig(participant.llm);
+            if (error !== undefined) {
+                return new Response(`Participant '${participant.id}': ${error}`, { status: 400 });
+            }
+            resolved.push({
+                id: participant.id,
+                senderName: participant.senderName,
+                systemPrompt: typeof participant.systemPrompt === 'string' ? participant.systemPrompt : '',
+                llm: config,
+            });
+        }
+
+        // Provider errors are reported per participant as error events in the stream.
+        // A client that goes away aborts the turn in progress and skips the rest.
+        const abort = createRequestAbortController(req.signal);
+        return toChatStreamResponse(runGroupChat(resolved, messages, { policy, rounds, userName, signal: abort.signal }), abort);
+
+    } catch (error: any) {
+        console.error('Error in group chat API route:', error);
+        const errorMessage = error.message || 'An unexpected error occurred';
+        const errorCode = error.status || 500;
+        return new Response(JSON.stringify({ error: errorMessage }), { status: errorCode });
+    }
+}
@@ -0,0 +1,45 @@
+import { getSessionStore } from '@/lib/session-store';
+
+// Sessions are stored on disk by default, which needs the Node.js runtime rather than edge
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => new Response(`Session '${id}' not found.`, { status: 404 });
+
+export async function GET(_req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const session = await getSessionStore().get(id);
+        return session ? Response.json(session) : notFound(id);
+    } catch (error: any) {
+        console.error('Error fetching session:', error);
+        return new Response(JSON.stringify({ error: error.message || 'An unexpected error occurred' }), { status: 500 });
+    }
+}
+
+// Renames a session; the title is the only mutable field, messages are appended through /api/chat
+export async function PATCH(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const { title } = await req.json().catch(() => ({}));
+        if (typeof title !== 'string' || !title.trim()) {
+            return new Response('A non-empty session title is required.', { status: 400 });
+        }
+        const session = await getSessionStore().rename(id, title.trim());
+        return session ? Response.json(session) : notFound(id);
+    } catch (error: any) {
+        console.error('Error renaming session:', error);
+        return new Response(JSON.stringify({ error: error.message || 'An unexpected error occurred' }), { status: 500 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        return (await getSessionStore().delete(id)) ? new Response(null, { status: 204 }) : notFound(id);
+    } catch (error: any) {
+        console.error('Error deleting session:', error);
+        return new Response(JSON.stringify({ error: error.message || 'An unexpected error occurred' }), { status: 500 });
+    }
+}
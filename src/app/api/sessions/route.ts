@@ -0,0 +1,51 @@
+import { resolveLLMConfig } from '@/lib/llm-config';
+import { getSessionStore } from '@/lib/session-store';
+import { isMessageLike } from '@/lib/messages';
+
+// Sessions are stored on disk by default, which needs the Node.js runtime rather than edge
+export const runtime = 'nodejs';
+
+export async function GET() {
+    try {
+        return Response.json(await getSessionStore().list());
+    } catch (error: any) {
+        console.error('Error listing sessions:', error);
+        return new Response(JSON.stringify({ error: error.message || 'An unexpected error occurred' }), { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    try {
+        // Everything is optional: an empty body creates an untitled session that uses provider defaults
+        const { title, themeId, llm, systemPrompt, messages = [] } = await req.json().catch(() => ({}));
+
+        if (title !== undefined && typeof title !== 'string') {
+            return new Response('Session title must be a string.', { status: 400 });
+        }
+        if (!Array.isArray(messages) || !messages.every(isMessageLike)) {
+            return new Response('Session messages must be an array of messages with id, role, agentId, content parts and timestamp.', { status: 400 });
+        }
+
+        let config;
+        if (llm !== undefined) {
+            const resolved = resolveLLMConfig(llm);
+            if (resolved.error !== undefined) {
+                return new Response(resolved.error, { status: 400 });
+            }
+            config = resolved.config;
+        }
+
+        const session = await getSessionStore().create({
+            title,
+            themeId: typeof themeId === 'string' ? themeId : undefined,
+            llm: config,
+            systemPrompt: typeof systemPrompt === 'string' ? systemPrompt : undefined,
+            messages: messages.map((m) => ({ ...m, timestamp: new Date(m.timestamp).toISOString() })),
+        });
+        return Response.json(session, { status: 201 });
+
+    } catch (error: any) {
+        console.error('Error creating session:', error);
+        return new Response(JSON.stringify({ error: error.message || 'An unexpected error occurred' }), { status: 500 });
+    }
+}
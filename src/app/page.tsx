@@ -1,36 +1,49 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback, useReducer, type DragEvent } from "react"
 import TerminalWindow from "@/components/terminal-window"
 import GroupChatWindow from "@/components/group-chat-window"
 import ConfirmationDialog from "@/components/confirmation-dialog"
+import ConnectionDialog from "@/components/connection-dialogue"
+import ConnectionLines, { type ConnectionLink, type WindowMotion } from "@/components/connection-lines"
 import TermWinV2 from "@/components/term-win-v2"
+import ThemeEditorWindow from "@/components/theme-editor-window"
 import { Button } from "@/components/ui/button"
-import { ChevronLeft, ChevronRight, X } from "lucide-react"
-import { defaultTheme, npcTheme, voidTheme } from "@/lib/terminal-themes"
-import type { ExtendedTerminalType, TerminalMessage as V2TerminalMessage } from "@/types/terminal-types"
-
-// --- Local Types for Original Terminals ---
-// Export this interface
-export interface Message {
-  id: string
-  content: string
-  sender: "user" | Llm
-  timestamp: Date
+import { ChevronLeft, ChevronRight, Download, Pencil, Plus, Upload, X } from "lucide-react"
+import { builtInThemes, defaultTheme, getThemeById, type TerminalTheme } from "@/lib/terminal-themes"
+import { loadDesktop, saveDesktop, type DesktopSnapshot } from "@/lib/desktop-storage"
+import { readChatExport } from "@/lib/chat-import"
+import { buildThemeCSS } from "@/lib/theme-css"
+import { createThemeId, downloadThemePack, readThemePack } from "@/lib/theme-packs"
+import { createMessage, SYSTEM_AGENT_ID } from "@/lib/messages"
+import { createMessageTree, getBranch } from "@/lib/message-tree"
+import {
+  getParticipantTheme,
+  getWindowTheme,
+  getWindowTitle,
+  initialWindowManagerState,
+  windowManagerReducer,
+} from "@/lib/window-manager"
+import type { DesktopWindow, TerminalMessage, WindowKind } from "@/types/terminal-types"
+
+type SavedState = { messages: TerminalMessage[]; leafId?: string | null; scrollPosition: number }
+
+// Stable callbacks for one window, so its effects do not re-run on every desktop render
+type WindowHandlers = {
+  saveState: (state: SavedState) => void
+  registerMotion: (motion: WindowMotion) => void
+  setElement: (element: HTMLDivElement | null) => void
 }
 
-// Define TerminalState using the local Message type (as an array)
-type TerminalState = {
-  isOpen: boolean
-  isToolbarMinimized: boolean
-  messages: Message[] // Reverted: Use Message[] again
-  scrollPosition: number
-  createdAt: number
-  zIndex: number
+// Whether a pointer position (page coordinates) falls inside an element
+const containsPoint = (element: HTMLElement | undefined, point: { x: number; y: number }) => {
+  if (!element) return false
+  const rect = element.getBoundingClientRect()
+  const x = point.x - window.scrollX
+  const y = point.y - window.scrollY
+  return x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
 }
 
-type TerminalType = "default" | "group"
-
 export default function Home() {
   // Window dimensions state
   const [windowDimensions, setWindowDimensions] = useState({
@@ -51,249 +64,147 @@ export default function Home() {
     return () => window.removeEventListener("resize", handleResize)
   }, [])
 
-  // Track terminal states with creation order
-  const [terminals, setTerminals] = useState<{
-    default: TerminalState
-    npc: TerminalState
-    void: TerminalState
-    group: TerminalState
-  }>({
-    default: {
-      isOpen: false,
-      isToolbarMinimized: false,
-      messages: [
-        {
-          id: "1",
-          content: "Welcome to the terminal. How can I assist you today?",
-          sender: "system",
-          timestamp: new Date(),
-        },
-      ],
-      scrollPosition: 0,
-      createdAt: 0,
-      zIndex: 10,
-    },
-    npc: {
-      isOpen: false,
-      isToolbarMinimized: false,
-      messages: [
-        {
-          id: "1",
-          content: "Greetings, traveler. How may I assist you on your quest today?",
-          sender: "system",
-          timestamp: new Date(),
-        },
-      ],
-      scrollPosition: 0,
-      createdAt: 0,
-      zIndex: 10,
-    },
-    void: {
-      isOpen: false,
-      isToolbarMinimized: false,
-      messages: [
-        {
-          id: "1",
-          content: "You have connected to the void. What secrets do you seek in the darkness?",
-          sender: "system",
-          timestamp: new Date(),
-        },
-      ],
-      scrollPosition: 0,
-      createdAt: 0,
-      zIndex: 10,
-    },
-    group: {
-      isOpen: false,
-      isToolbarMinimized: false,
-      messages: [],
-      scrollPosition: 0,
-      createdAt: 0,
-      zIndex: 10,
-    },
-  })
+  // Every terminal, V2 terminal and group chat on the desktop
+  const [{ windows, nextZIndex, activeFullscreen }, dispatch] = useReducer(windowManagerReducer, initialWindowManagerState)
+
+  // The theme registry: built-in themes plus the ones made in the theme editor or imported from packs
+  const [customThemes, setCustomThemes] = useState<TerminalTheme[]>([])
+  const themes = [...builtInThemes, ...customThemes]
+
+  // Theme open in the editor; new themes start as a copy of `theme`
+  const [editingTheme, setEditingTheme] = useState<{ theme: TerminalTheme; isNew: boolean } | null>(null)
+  const themePackInputRef = useRef<HTMLInputElement>(null)
 
   // Confirmation dialog state
   const [confirmationDialog, setConfirmationDialog] = useState<{
     isOpen: boolean
-    terminalType: TerminalType | null
+    windowId: string | null
     title: string
     message: string
   }>({
     isOpen: false,
-    terminalType: null,
+    windowId: null,
     title: "",
     message: "",
   })
 
-  // Terminal refs for connection lines
-  const terminalRefs = {
-    default: useRef<HTMLDivElement>(null),
-    npc: useRef<HTMLDivElement>(null),
-    void: useRef<HTMLDivElement>(null),
-    group: useRef<HTMLDivElement>(null),
-  }
+  // Mounted window elements by id, for dropping one terminal onto another
+  const windowElementsRef = useRef(new Map<string, HTMLDivElement>())
 
-  const [activeFullscreen, setActiveFullscreen] = useState<ExtendedTerminalType | null>(null)
-  const [nextZIndex, setNextZIndex] = useState(20) // Start z-index counter
-
-  // State for TermWinV2
-  const [isTermWinV2Open, setIsTermWinV2Open] = useState(false)
-  const termWinV2Ref = useRef<HTMLDivElement>(null)
-  const [termWinV2ZIndex, setTermWinV2ZIndex] = useState(15)
-
-  // Function to bring a terminal to the front
-  const bringToFront = (terminal: TerminalType) => {
-    setTerminals((prev) => {
-      const newZIndex = nextZIndex
-      setNextZIndex((prev) => prev + 1)
-
-      return {
-        ...prev,
-        [terminal]: {
-          ...prev[terminal],
-          zIndex: newZIndex,
-        },
+  // Window ids of a connection waiting for confirmation, and terminals picked in the connect bar
+  const [pendingConnection, setPendingConnection] = useState<string[] | null>(null)
+  const [selectedForGroup, setSelectedForGroup] = useState<string[]>([])
+
+  // Motion values reported by each mounted window, for drawing connection lines
+  const [windowMotions, setWindowMotions] = useState<Record<string, WindowMotion | undefined>>({})
+
+  // Windows only mount once the saved session has been restored, since they read their props on mount
+  const [isRestored, setIsRestored] = useState(false)
+
+  // Restore the desktop saved in IndexedDB
+  useEffect(() => {
+    loadDesktop().then((snapshot) => {
+      if (snapshot) {
+        dispatch({ type: "restore", windows: snapshot.windows, nextZIndex: snapshot.nextZIndex })
+        setCustomThemes(snapshot.themes)
       }
+      setIsRestored(true)
     })
-  }
+  }, [])
 
-  // Open terminals in complementary positions
-  const openDefaultChat = () => {
-    if (terminals.default.isToolbarMinimized) {
-      // Restore from toolbar
-      setTerminals((prev) => ({
-        ...prev,
-        default: {
-          ...prev.default,
-          isToolbarMinimized: false,
-          isOpen: true,
-        },
-      }))
-    } else {
-      // Open new with timestamp
-      const now = Date.now()
-      setTerminals((prev) => ({
-        ...prev,
-        default: {
-          ...prev.default,
-          isOpen: true,
-          createdAt: now,
-        },
-      }))
+  // Latest desktop state for the debounced save, which runs outside of render
+  const desktopRef = useRef({ windows, nextZIndex, windowMotions, customThemes })
+  desktopRef.current = { windows, nextZIndex, windowMotions, customThemes }
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const persistDesktop = useCallback(() => {
+    const { windows, nextZIndex, windowMotions, customThemes } = desktopRef.current
+    const snapshot: DesktopSnapshot = {
+      // Motion values outlive a minimized window, so prefer them over the stored position
+      windows: windows.map((w) => {
+        const motion = windowMotions[w.id]
+        return motion ? { ...w, position: { x: motion.x.get(), y: motion.y.get() } } : w
+      }),
+      nextZIndex,
+      themes: customThemes,
     }
-    // Bring to front
-    bringToFront("default")
-  }
+    saveDesktop(snapshot)
+  }, [])
 
-  const openNPCChat = () => {
-    if (terminals.npc.isToolbarMinimized) {
-      // Restore from toolbar
-      setTerminals((prev) => ({
-        ...prev,
-        npc: {
-          ...prev.npc,
-          isToolbarMinimized: false,
-          isOpen: true,
+  const scheduleSave = useCallback(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = setTimeout(persistDesktop, 500)
+  }, [persistDesktop])
+
+  const handlersRef = useRef(new Map<string, WindowHandlers>())
+
+  const getWindowHandlers = (id: string) => {
+    let handlers = handlersRef.current.get(id)
+    if (!handlers) {
+      handlers = {
+        saveState: ({ messages, leafId, scrollPosition }) => dispatch({ type: "saveState", id, messages, leafId, scrollPosition }),
+        // Motion values are stable per window, so only store them the first time a window reports
+        registerMotion: (motion) => setWindowMotions((prev) => (prev[id]?.x === motion.x ? prev : { ...prev, [id]: motion })),
+        setElement: (element) => {
+          if (element) windowElementsRef.current.set(id, element)
+          else windowElementsRef.current.delete(id)
         },
-      }))
-    } else {
-      // Open new with timestamp
-      const now = Date.now()
-      setTerminals((prev) => ({
-        ...prev,
-        npc: {
-          ...prev.npc,
-          isOpen: true,
-          createdAt: now,
-        },
-      }))
+      }
+      handlersRef.current.set(id, handlers)
     }
-    // Bring to front
-    bringToFront("npc")
+    return handlers
   }
 
-  const openVoidChat = () => {
-    if (terminals.void.isToolbarMinimized) {
-      // Restore from toolbar
-      setTerminals((prev) => ({
-        ...prev,
-        void: {
-          ...prev.void,
-          isToolbarMinimized: false,
-          isOpen: true,
-        },
-      }))
-    } else {
-      // Open new with timestamp
-      const now = Date.now()
-      setTerminals((prev) => ({
-        ...prev,
-        void: {
-          ...prev.void,
-          isOpen: true,
-          createdAt: now,
-        },
-      }))
+  // Where a new window opens: each theme has its own corner, and further instances cascade from it
+  const getSpawnPosition = (kind: WindowKind, themeId: string) => {
+    const { width, height } = windowDimensions
+    const anchors: Record<string, { x: number; y: number }> = {
+      default: { x: width / 2 - 190, y: 50 },
+      npc: { x: width - 430, y: 50 },
+      void: { x: 50, y: height - 550 },
+      oracle: { x: width - 430, y: height - 550 },
+      group: { x: width / 2 - 240, y: height / 2 - 300 },
+      v2: { x: width / 2 - 190, y: height - 550 },
     }
-    // Bring to front
-    bringToFront("void")
+    const anchor = anchors[kind === "terminal" ? themeId : kind] ?? anchors.default
+    const offset = 30 * windows.filter((w) => w.kind === kind && w.themeId === themeId).length
+    return { x: anchor.x + offset, y: anchor.y + offset }
   }
 
-  // Minimize to toolbar instead of closing
-  const minimizeDefaultToToolbar = () => {
-    setTerminals((prev) => ({
-      ...prev,
-      default: {
-        ...prev.default,
-        isToolbarMinimized: true,
-        isOpen: false,
+  // A terminal's greeting is its own model speaking
+  const spawnTerminal = (themeId: string, messages?: TerminalMessage[], leafId?: string | null) => {
+    const theme = getThemeById(themeId, themes)
+    dispatch({
+      type: "spawn",
+      window: {
+        kind: "terminal",
+        themeId: theme.id,
+        messages: messages ?? [createMessage({ id: "1", role: "assistant", agentId: theme.id, text: theme.greeting })],
+        leafId,
+        position: getSpawnPosition("terminal", theme.id),
+        createdAt: Date.now(),
       },
-    }))
-    if (activeFullscreen === "default") setActiveFullscreen(null)
-  }
-
-  const minimizeNPCToToolbar = () => {
-    setTerminals((prev) => ({
-      ...prev,
-      npc: {
-        ...prev.npc,
-        isToolbarMinimized: true,
-        isOpen: false,
-      },
-    }))
-    if (activeFullscreen === "npc") setActiveFullscreen(null)
+    })
   }
 
-  const minimizeVoidToToolbar = () => {
-    setTerminals((prev) => ({
-      ...prev,
-      void: {
-        ...prev.void,
-        isToolbarMinimized: true,
-        isOpen: false,
-      },
-    }))
-    if (activeFullscreen === "void") setActiveFullscreen(null)
+  const spawnV2 = () => {
+    dispatch({
+      type: "spawn",
+      window: { kind: "v2", themeId: "default", messages: [], position: getSpawnPosition("v2", "default"), createdAt: Date.now() },
+    })
   }
 
-  const minimizeGroupToToolbar = () => {
-    setTerminals((prev) => ({
-      ...prev,
-      group: {
-        ...prev.group,
-        isToolbarMinimized: true,
-        isOpen: false,
-      },
-    }))
-    if (activeFullscreen === "group") setActiveFullscreen(null)
+  // Minimize to the taskbar, remembering where to reopen
+  const minimizeWindow = (id: string) => {
+    const motion = windowMotions[id]
+    dispatch({ type: "minimize", id, position: motion && { x: motion.x.get(), y: motion.y.get() } })
   }
 
-  // Permanently close a terminal
-  const closeTerminal = (terminalType: TerminalType) => {
+  // Permanently close a window
+  const closeWindow = (windowId: string) => {
     setConfirmationDialog({
       isOpen: true,
-      terminalType,
+      windowId,
       title: "Close Terminal",
       message: "This will permanently close the terminal and destroy all context. Are you sure you want to continue?",
     })
@@ -301,29 +212,16 @@ export default function Home() {
 
   // Handle confirmation dialog confirm
   const handleConfirmClose = () => {
-    if (!confirmationDialog.terminalType) return
-
-    setTerminals((prev) => ({
-      ...prev,
-      [confirmationDialog.terminalType!]: {
-        ...prev[confirmationDialog.terminalType!],
-        isOpen: false,
-        isToolbarMinimized: false,
-        messages: [
-          {
-            id: "1",
-            content: getInitialMessage(confirmationDialog.terminalType as TerminalType),
-            sender: "system",
-            timestamp: new Date(),
-          },
-        ],
-        scrollPosition: 0,
-      },
-    }))
+    const id = confirmationDialog.windowId
+    if (!id) return
+
+    dispatch({ type: "destroy", id })
+    setWindowMotions(({ [id]: _, ...rest }) => rest)
+    setSelectedForGroup((prev) => prev.filter((selected) => selected !== id))
 
     setConfirmationDialog({
       isOpen: false,
-      terminalType: null,
+      windowId: null,
       title: "",
       message: "",
     })
@@ -333,364 +231,468 @@ export default function Home() {
   const handleCancelClose = () => {
     setConfirmationDialog({
       isOpen: false,
-      terminalType: null,
+      windowId: null,
       title: "",
       message: "",
     })
   }
 
-  // Get initial message based on terminal type
-  const getInitialMessage = (type: TerminalType): string => {
-    switch (type) {
-      case "default":
-        return "Welcome to the terminal. How can I assist you today?"
-      case "npc":
-        return "Greetings, traveler. How may I assist you on your quest today?"
-      case "void":
-        return "You have connected to the void. What secrets do you seek in the darkness?"
-      case "group":
-        return "Welcome to the group chat."
-      default:
-        return "Hello, how can I help you?"
-    }
-  }
+  // Determine if taskbar should be visible (hide when fullscreen is active)
+  const minimizedWindows = windows.filter((w) => w.isToolbarMinimized)
+  const isTaskbarVisible = activeFullscreen === null && minimizedWindows.length > 0
 
-  // Fullscreen state management
-  const setDefaultFullscreen = (isFullscreen: boolean) => {
-    if (isFullscreen) {
-      setActiveFullscreen("default")
-      // When going fullscreen, bring to front
-      bringToFront("default")
-    } else if (activeFullscreen === "default") {
-      setActiveFullscreen(null)
-    }
-  }
+  // Terminals, as opposed to V2 terminals and group chats, are the ones that can join a group chat
+  const terminalWindows = windows.filter((w) => w.kind === "terminal")
+  const openTerminalWindows = terminalWindows.filter((w) => w.isOpen)
+  const groupWindow = windows.find((w) => w.kind === "group")
 
-  const setNPCFullscreen = (isFullscreen: boolean) => {
-    if (isFullscreen) {
-      setActiveFullscreen("npc")
-      // When going fullscreen, bring to front
-      bringToFront("npc")
-    } else if (activeFullscreen === "npc") {
-      setActiveFullscreen(null)
-    }
-  }
+  const getWindowById = (id: string) => windows.find((w) => w.id === id)
 
-  const setVoidFullscreen = (isFullscreen: boolean) => {
-    if (isFullscreen) {
-      setActiveFullscreen("void")
-      // When going fullscreen, bring to front
-      bringToFront("void")
-    } else if (activeFullscreen === "void") {
-      setActiveFullscreen(null)
-    }
-  }
+  const toParticipant = (w: DesktopWindow) => getParticipantTheme(w, getThemeById(w.themeId, themes))
 
-  const setGroupFullscreen = (isFullscreen: boolean) => {
-    if (isFullscreen) {
-      setActiveFullscreen("group")
-      // When going fullscreen, bring to front
-      bringToFront("group")
-    } else if (activeFullscreen === "group") {
-      setActiveFullscreen(null)
-    }
+  // Dropping one terminal onto another proposes connecting them
+  const handleTerminalDragEnd = (sourceId: string, point: { x: number; y: number }) => {
+    const target = openTerminalWindows.find(
+      (w) => w.id !== sourceId && containsPoint(windowElementsRef.current.get(w.id), point),
+    )
+    if (target) setPendingConnection([sourceId, target.id])
   }
 
-  // Cycle between fullscreen terminals
-  const cycleFullscreen = (direction: "next" | "prev") => {
-    const openTerminalKeys = (Object.keys(terminals) as TerminalType[]).filter(key => terminals[key].isOpen)
-    const availableFullscreenKeys: ExtendedTerminalType[] = [...openTerminalKeys]
-    if (isTermWinV2Open) {
-      availableFullscreenKeys.push('v2')
-    }
-    if (!activeFullscreen || availableFullscreenKeys.length < 2) return
-    const currentIndex = availableFullscreenKeys.indexOf(activeFullscreen)
-    if (currentIndex === -1) return
-    let nextIndex = direction === "next"
-      ? (currentIndex + 1) % availableFullscreenKeys.length
-      : (currentIndex - 1 + availableFullscreenKeys.length) % availableFullscreenKeys.length
-    const nextKey = availableFullscreenKeys[nextIndex]
-    setActiveFullscreen(nextKey)
-    // Explicit check for 'v2' before calling bringToFront
-    if (nextKey === 'v2') {
-      bringV2ToFront()
+  // Seed a new group chat with the participants' existing conversations (the branch each one shows), in time order.
+  // The group chat knows each terminal by its window id, so their replies are attributed to it.
+  const getSeedMessages = (participants: DesktopWindow[]): TerminalMessage[] => [
+    createMessage({
+      id: "1",
+      role: "system",
+      agentId: SYSTEM_AGENT_ID,
+      text: `Group chat started with ${participants.map((w) => getWindowTitle(w, getThemeById(w.themeId, themes))).join(", ")}.`,
+    }),
+    ...participants
+      .flatMap((w) =>
+        getBranch(createMessageTree(w.messages, w.leafId)).map(({ parentId, ...message }) => ({
+          ...message,
+          id: `${w.id}-${message.id}`,
+          agentId: message.role === "assistant" ? w.id : message.agentId,
+        })),
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+  ]
+
+  // Create the group chat, or add to it if one already exists
+  const connectTerminals = (ids: string[]) => {
+    if (groupWindow) {
+      const participants = groupWindow.participants ?? []
+      dispatch({ type: "setParticipants", id: groupWindow.id, participants: [...participants, ...ids.filter((id) => !participants.includes(id))] })
+      dispatch({ type: "open", id: groupWindow.id })
     } else {
-      // nextKey here is guaranteed to be TerminalType
-      bringToFront(nextKey)
+      const participants = ids.flatMap((id) => getWindowById(id) ?? [])
+      dispatch({
+        type: "spawn",
+        window: {
+          kind: "group",
+          themeId: "default",
+          messages: getSeedMessages(participants),
+          position: getSpawnPosition("group", "default"),
+          createdAt: Date.now(),
+          participants: participants.map((w) => w.id),
+        },
+      })
     }
   }
 
-  // Save terminal state - only called when terminal is closed or minimized to toolbar
-  const saveDefaultState = (messages: any[], scrollPosition: number) => {
-    // Only update if something actually changed
-    setTerminals((prev) => {
-      // Skip update if nothing changed
-      if (prev.default.messages === messages && prev.default.scrollPosition === scrollPosition) {
-        return prev
-      }
+  const handleConfirmConnection = () => {
+    if (pendingConnection) connectTerminals(pendingConnection)
+    setPendingConnection(null)
+    setSelectedForGroup([])
+  }
 
-      return {
-        ...prev,
-        default: {
-          ...prev.default,
-          messages,
-          scrollPosition,
-        },
-      }
-    })
+  const removeParticipant = (groupId: string, participantId: string) => {
+    const group = getWindowById(groupId)
+    if (!group) return
+    dispatch({ type: "setParticipants", id: groupId, participants: (group.participants ?? []).filter((id) => id !== participantId) })
   }
 
-  const saveNPCState = (messages: any[], scrollPosition: number) => {
-    // Only update if something actually changed
-    setTerminals((prev) => {
-      // Skip update if nothing changed
-      if (prev.npc.messages === messages && prev.npc.scrollPosition === scrollPosition) {
-        return prev
-      }
+  // One line from each open participant to its group chat
+  const connectionLinks: ConnectionLink[] = windows
+    .filter((w) => w.kind === "group" && w.isOpen)
+    .flatMap((group) =>
+      (group.participants ?? []).flatMap((id) => {
+        const participant = getWindowById(id)
+        if (!participant?.isOpen) return []
+        const theme = getThemeById(participant.themeId, themes)
+        return [
+          {
+            id: `${group.id}-${id}`,
+            from: id,
+            to: group.id,
+            label: `${getWindowTitle(participant, theme)} ↔ ${getWindowTitle(group, theme)}`,
+            // Themes only carry Tailwind classes, so reuse the hex color from the dot class
+            color: theme.styles.dotColor.match(/#[0-9a-fA-F]{6}/)?.[0] ?? "#8a857d",
+          },
+        ]
+      }),
+    )
 
-      return {
-        ...prev,
-        npc: {
-          ...prev.npc,
-          messages,
-          scrollPosition,
-        },
-      }
-    })
-  }
+  // Save when sessions change, while windows move, and when the page goes away
+  useEffect(() => {
+    if (isRestored) scheduleSave()
+  }, [windows, nextZIndex, customThemes, isRestored, scheduleSave])
 
-  const saveVoidState = (messages: any[], scrollPosition: number) => {
-    // Only update if something actually changed
-    setTerminals((prev) => {
-      // Skip update if nothing changed
-      if (prev.void.messages === messages && prev.void.scrollPosition === scrollPosition) {
-        return prev
-      }
+  useEffect(() => {
+    const unsubscribers = Object.values(windowMotions).flatMap((motion) =>
+      motion ? [motion.x.on("change", scheduleSave), motion.y.on("change", scheduleSave)] : [],
+    )
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [windowMotions, scheduleSave])
 
-      return {
-        ...prev,
-        void: {
-          ...prev.void,
-          messages,
-          scrollPosition,
-        },
-      }
-    })
+  useEffect(() => {
+    const flush = () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+      persistDesktop()
+    }
+    window.addEventListener("pagehide", flush)
+    return () => window.removeEventListener("pagehide", flush)
+  }, [persistDesktop])
+
+  const toggleSelectedForGroup = (id: string) => {
+    setSelectedForGroup((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]))
   }
 
-  const saveGroupState = (messages: any[], scrollPosition: number) => {
-    // Only update if something actually changed
-    setTerminals((prev) => {
-      // Skip update if nothing changed
-      if (prev.group.messages === messages && prev.group.scrollPosition === scrollPosition) {
-        return prev
-      }
+  // Chat exports dropped onto the desktop or a terminal
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  const [importNotice, setImportNotice] = useState<string | null>(null)
 
-      return {
-        ...prev,
-        group: {
-          ...prev.group,
-          messages,
-          scrollPosition,
-        },
-      }
-    })
+  // An import opens in a new terminal of the exported theme, leaving open terminals untouched
+  const importChatFile = async (file: File) => {
+    const { chat, error } = await readChatExport(file, themes)
+    if (error !== undefined) {
+      setImportNotice(`Import failed: ${error}`)
+      return
+    }
+    spawnTerminal(chat.theme.id, chat.messages, chat.leafId)
+    setImportNotice(`Imported ${chat.messages.length} messages into a new ${chat.theme.name}.`)
   }
 
-  // Update the initial positions to be complementary
-  const defaultInitialPosition = {
-    x: windowDimensions.width / 2 - 190, // Position in center
-    y: 50, // Position from top
+  // New themes get an id from their name; edits replace the theme in place, restyling its open windows
+  const saveTheme = (theme: TerminalTheme) => {
+    if (editingTheme?.isNew) {
+      setCustomThemes((prev) => [...prev, { ...theme, id: createThemeId(theme.name, themes) }])
+    } else {
+      setCustomThemes((prev) => prev.map((t) => (t.id === theme.id ? theme : t)))
+    }
+    setEditingTheme(null)
   }
 
-  const npcInitialPosition = {
-    x: windowDimensions.width - 430, // Position in top-right
-    y: 50, // Position from top
+  // Windows of a deleted theme fall back to the default theme
+  const deleteTheme = (id: string) => {
+    setCustomThemes((prev) => prev.filter((t) => t.id !== id))
+    setEditingTheme(null)
   }
 
-  const voidInitialPosition = {
-    x: 50, // Position in bottom-left
-    y: windowDimensions.height - 550, // Position from bottom
+  // Pack themes replace custom themes with the same id and are added otherwise
+  const importThemePack = async (file: File) => {
+    const { themes: imported, error } = await readThemePack(file)
+    if (error !== undefined) {
+      setImportNotice(`Theme import failed: ${error}`)
+      return
+    }
+    setCustomThemes((prev) => [...prev.filter((t) => !imported.some((i) => i.id === t.id)), ...imported])
+    setImportNotice(`Imported ${imported.length} theme${imported.length === 1 ? "" : "s"}.`)
   }
 
-  const groupInitialPosition = {
-    x: windowDimensions.width / 2 - 240, // Position in center
-    y: windowDimensions.height / 2 - 300, // Position in center
+  useEffect(() => {
+    if (!importNotice) return
+    const timer = setTimeout(() => setImportNotice(null), 4000)
+    return () => clearTimeout(timer)
+  }, [importNotice])
+
+  const isFileDrag = (e: DragEvent) => e.dataTransfer.types.includes("Files")
+
+  const handleFileDragOver = (e: DragEvent) => {
+    if (!isFileDrag(e)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = "copy"
+    setIsDraggingFile(true)
   }
 
-  // Calculate position for the new window
-  const v2InitialPosition = { x: windowDimensions.width / 2 - 190, y: windowDimensions.height - 550 }
-
-  // Determine if taskbar should be visible (hide when fullscreen is active)
-  const isTaskbarVisible =
-    activeFullscreen === null &&
-    (terminals.default.isToolbarMinimized ||
-      terminals.npc.isToolbarMinimized ||
-      terminals.void.isToolbarMinimized ||
-      terminals.group.isToolbarMinimized)
-
-  // Get connected window names for group chat
-  const getConnectedWindowNames = () => {
-    return ["DEFAULT", "NPC", "VOID"].filter((name) => Math.random() > 0.5)
+  const handleFileDrop = (e: DragEvent) => {
+    if (!isFileDrag(e)) return
+    e.preventDefault()
+    setIsDraggingFile(false)
+    const file = e.dataTransfer.files[0]
+    if (file) importChatFile(file)
   }
 
-  // TermWinV2 handlers
-  const handleV2Close = () => {
-    setIsTermWinV2Open(false)
-    if (activeFullscreen === 'v2') {
-      setActiveFullscreen(null)
+  const renderWindow = (w: DesktopWindow) => {
+    const theme = getThemeById(w.themeId, themes)
+    const handlers = getWindowHandlers(w.id)
+    const common = {
+      onClose: () => minimizeWindow(w.id),
+      onFullscreenChange: (isFullscreen: boolean) => dispatch({ type: "fullscreen", id: w.id, isFullscreen }),
+      onSaveState: handlers.saveState,
+      isActive: activeFullscreen === w.id || activeFullscreen === null,
+      initialPosition: w.position,
+      savedMessages: w.messages,
+      savedLeafId: w.leafId,
+      savedScrollPosition: w.scrollPosition,
+      zIndex: w.zIndex,
+      onFocus: () => dispatch({ type: "focus", id: w.id }),
+      inputHistory: w.inputHistory ?? [],
+      onInputEntered: (entry: string) => dispatch({ type: "addInputHistory", id: w.id, entry }),
+    }
+    // Terminals can restyle themselves with the /theme command
+    const themeSwitching = {
+      themes,
+      onThemeChange: (themeId: string) => dispatch({ type: "setTheme", id: w.id, themeId }),
     }
-  }
 
-  const handleV2FullscreenChange = (isFullscreen: boolean) => {
-    if (isFullscreen) {
-      setActiveFullscreen('v2')
-      bringV2ToFront()
-    } else if (activeFullscreen === 'v2') {
-      setActiveFullscreen(null)
+    switch (w.kind) {
+      case "terminal":
+        return (
+          <TerminalWindow
+            key={w.id}
+            id={w.id}
+            theme={getWindowTheme(w, theme)}
+            {...common}
+            {...themeSwitching}
+            initialMessage={theme.greeting}
+            ref={handlers.setElement}
+            onDragEnd={(point) => handleTerminalDragEnd(w.id, point)}
+            onMotionReady={handlers.registerMotion}
+          />
+        )
+
+      case "group": {
+        const participants = w.participants ?? []
+        return (
+          <GroupChatWindow
+            key={w.id}
+            {...common}
+            participants={participants.flatMap((id) => {
+              const participant = getWindowById(id)
+              return participant ? [toParticipant(participant)] : []
+            })}
+            availableParticipants={openTerminalWindows.filter((t) => !participants.includes(t.id)).map(toParticipant)}
+            onAddParticipant={(id) => connectTerminals([id])}
+            onRemoveParticipant={(id) => removeParticipant(w.id, id)}
+            onMotionReady={handlers.registerMotion}
+          />
+        )
+      }
+
+      case "v2":
+        return (
+          <TermWinV2
+            key={w.id}
+            ref={handlers.setElement}
+            id={w.id}
+            theme={theme}
+            {...common}
+            {...themeSwitching}
+            initialMessage="Welcome to Terminal V2!"
+          />
+        )
     }
-    console.log("TermWinV2 fullscreen changed:", isFullscreen, "Active FS:", isFullscreen ? 'v2' : null)
   }
 
-  const bringV2ToFront = () => {
-    const newZ = nextZIndex
-    setTermWinV2ZIndex(newZ)
-    setNextZIndex((prev) => prev + 1)
+  const renderTaskbarEntry = (w: DesktopWindow) => {
+    const theme = getThemeById(w.themeId, themes)
+    const styles = theme.styles
+    const entryClass =
+      w.kind === "group"
+        ? "bg-gradient-to-r from-[#0f3a1a] via-[#e5e1d8] to-[#1d0e35] text-[#5a5751]"
+        : `${styles.headerBackground} ${styles.headerText}`
+    const dividerClass = w.kind === "group" ? "border-[#c8c3b8]" : styles.headerBorder
+
+    return (
+      <div key={w.id} className="flex items-center">
+        <Button
+          onClick={() => dispatch({ type: "open", id: w.id })}
+          variant="ghost"
+          className={`h-8 px-3 ${entryClass} hover:opacity-90 flex items-center gap-2 rounded-md rounded-r-none`}
+        >
+          {w.kind === "group" ? (
+            <div className="flex space-x-1">
+              {(w.participants ?? []).map((id) => {
+                const participant = getWindowById(id)
+                return participant && <div key={id} className={`h-2 w-2 rounded-full ${getThemeById(participant.themeId, themes).styles.dotColor}`}></div>
+              })}
+            </div>
+          ) : (
+            <div className={`h-2 w-2 rounded-full ${styles.dotColor}`}></div>
+          )}
+          <span className="font-mono text-xs">{getWindowTitle(w, theme)}</span>
+        </Button>
+        <Button
+          onClick={() => closeWindow(w.id)}
+          variant="ghost"
+          className={`h-8 px-2 ${entryClass} hover:opacity-90 rounded-md rounded-l-none border-l ${dividerClass}`}
+        >
+          <X size={12} />
+        </Button>
+      </div>
+    )
   }
 
   return (
-    <main className="flex min-h-screen flex-col items-center justify-center p-24 bg-[#f7f5f0]">
+    <main
+      className="flex min-h-screen flex-col items-center justify-center p-24 bg-[#f7f5f0]"
+      onDragOver={handleFileDragOver}
+      onDragLeave={(e) => {
+        // Leaving into a child element still counts as over the desktop
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false)
+      }}
+      onDrop={handleFileDrop}
+    >
       <h1 className="text-3xl font-mono mb-12 text-[#5a5751]">Terminal Selection</h1>
 
-      <div className="flex gap-8 items-center justify-center mb-8">
-        <div className="flex flex-col items-center">
-          <Button
-            onClick={openDefaultChat}
-            className="w-24 h-24 bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#5a5751] border border-[#c8c3b8] shadow-sm"
-          >
-            <span className="font-mono">DEFAULT</span>
-          </Button>
-          <p className="mt-2 text-center text-[#5a5751] max-w-xs text-sm">Standard terminal interface</p>
-        </div>
+      {/* Rules for colors in user-made themes, which Tailwind never saw */}
+      <style>{buildThemeCSS(customThemes)}</style>
+
+      {/* Each click spawns another terminal, so several can share a theme */}
+      <div className="flex flex-wrap gap-8 items-center justify-center mb-8">
+        {themes.map((theme) => {
+          const isBuiltIn = builtInThemes.includes(theme)
+          return (
+            <div key={theme.id} className="relative flex flex-col items-center">
+              <Button
+                onClick={() => spawnTerminal(theme.id)}
+                className="w-24 h-24 bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#5a5751] border border-[#c8c3b8] shadow-sm flex flex-col gap-2"
+              >
+                <div className={`h-2 w-2 rounded-full ${theme.styles.dotColor}`}></div>
+                <span className="font-mono truncate max-w-full">{isBuiltIn ? theme.id.toUpperCase() : theme.name}</span>
+              </Button>
+              {/* Built-in themes are copied into a new theme rather than edited */}
+              <Button
+                variant="ghost"
+                size="icon"
+                title={isBuiltIn ? "Customize a copy" : "Edit theme"}
+                onClick={() => setEditingTheme({ theme, isNew: isBuiltIn })}
+                className="absolute top-1 right-1 h-6 w-6 text-[#8a857d] hover:text-[#3d3b36] hover:bg-[#d9d4c9]"
+              >
+                <Pencil size={12} />
+              </Button>
+              <p className="mt-2 text-center text-[#5a5751] max-w-xs text-sm">{theme.description}</p>
+            </div>
+          )
+        })}
 
         <div className="flex flex-col items-center">
           <Button
-            onClick={openNPCChat}
-            className="w-24 h-24 bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#2c3e2e] border border-[#c8c3b8] shadow-sm"
+            onClick={spawnV2}
+            className="w-24 h-24 bg-[#e0e0e0] hover:bg-[#cccccc] text-[#333333] border border-[#bbbbbb] shadow-sm"
           >
-            <span className="font-mono">NPC</span>
+            <span className="font-mono">V2</span>
           </Button>
-          <p className="mt-2 text-center text-[#5a5751] max-w-xs text-sm">Game dialogue interface</p>
+          <p className="mt-2 text-center text-[#5a5751] max-w-xs text-sm">New Terminal V2</p>
         </div>
+      </div>
 
-        <div className="flex flex-col items-center">
-          <Button
-            onClick={openVoidChat}
-            className="w-24 h-24 bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#2d1b3e] border border-[#c8c3b8] shadow-sm"
-          >
-            <span className="font-mono">VOID</span>
-          </Button>
-          <p className="mt-2 text-center text-[#5a5751] max-w-xs text-sm">Cosmic void interface</p>
-        </div>
+      <div className="flex gap-2 items-center justify-center mb-8 font-mono text-xs">
+        <Button
+          variant="outline"
+          onClick={() => setEditingTheme({ theme: defaultTheme, isNew: true })}
+          className="h-8 px-3 text-xs border-[#c8c3b8] bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#5a5751]"
+        >
+          <Plus size={12} className="mr-1" />
+          New theme
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => themePackInputRef.current?.click()}
+          className="h-8 px-3 text-xs border-[#c8c3b8] bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#5a5751]"
+        >
+          <Upload size={12} className="mr-1" />
+          Import themes
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => downloadThemePack(customThemes)}
+          disabled={customThemes.length === 0}
+          className="h-8 px-3 text-xs border-[#c8c3b8] bg-[#e5e1d8] hover:bg-[#d9d4c9] text-[#5a5751]"
+        >
+          <Download size={12} className="mr-1" />
+          Export themes
+        </Button>
+        <input
+          ref={themePackInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importThemePack(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
 
-        <div className="flex flex-col items-center">
+      {/* Pick open terminals to connect, as an alternative to dropping one terminal onto another */}
+      {openTerminalWindows.length >= 2 && (
+        <div className="flex flex-wrap gap-2 items-center justify-center mb-8 font-mono text-xs text-[#5a5751]">
+          <span>Connect:</span>
+          {openTerminalWindows.map((w) => (
+            <Button
+              key={w.id}
+              variant="outline"
+              onClick={() => toggleSelectedForGroup(w.id)}
+              className={`h-8 px-3 text-xs border-[#c8c3b8] ${selectedForGroup.includes(w.id) ? "bg-[#d9b38c] text-[#3d3b36]" : "bg-[#e5e1d8] hover:bg-[#d9d4c9]"}`}
+            >
+              {getWindowTitle(w, getThemeById(w.themeId, themes))}
+            </Button>
+          ))}
           <Button
-            onClick={() => {
-              setIsTermWinV2Open(true)
-              bringV2ToFront()
-            }}
-            className="w-24 h-24 bg-[#e0e0e0] hover:bg-[#cccccc] text-[#333333] border border-[#bbbbbb] shadow-sm"
-            disabled={isTermWinV2Open}
+            onClick={() => setPendingConnection(selectedForGroup)}
+            disabled={selectedForGroup.filter((id) => getWindowById(id)?.isOpen).length < 2}
+            className="h-8 px-3 text-xs bg-[#d9b38c] hover:bg-[#c9a37c] text-[#3d3b36]"
           >
-            <span className="font-mono">V2</span>
+            Group chat
           </Button>
-          <p className="mt-2 text-center text-[#5a5751] max-w-xs text-sm">New Terminal V2</p>
         </div>
-      </div>
+      )}
+
+      {isRestored && windows.filter((w) => w.isOpen).map(renderWindow)}
 
-      {terminals.default.isOpen && (
-        <TerminalWindow
-          id="default"
-          theme={defaultTheme}
-          onClose={minimizeDefaultToToolbar}
-          onFullscreenChange={setDefaultFullscreen}
-          onSaveState={saveDefaultState}
-          isActive={activeFullscreen === "default" || activeFullscreen === null}
-          initialPosition={defaultInitialPosition}
-          savedMessages={terminals.default.messages}
-          savedScrollPosition={terminals.default.scrollPosition}
-          zIndex={terminals.default.zIndex}
-          onFocus={() => bringToFront("default")}
-          initialMessage="Welcome to the terminal. How can I assist you today?"
-          ref={terminalRefs.default}
+      {activeFullscreen === null && (
+        <ConnectionLines
+          windows={windowMotions}
+          links={connectionLinks}
+          zIndex={5}
+          onOpenSettings={(link) => dispatch({ type: "open", id: link.to })}
+          onDisconnect={(link) => removeParticipant(link.to, link.from)}
         />
       )}
 
-      {terminals.npc.isOpen && (
-        <TerminalWindow
-          id="npc"
-          theme={npcTheme}
-          onClose={minimizeNPCToToolbar}
-          onFullscreenChange={setNPCFullscreen}
-          onSaveState={saveNPCState}
-          isActive={activeFullscreen === "npc" || activeFullscreen === null}
-          initialPosition={npcInitialPosition}
-          savedMessages={terminals.npc.messages}
-          savedScrollPosition={terminals.npc.scrollPosition}
-          zIndex={terminals.npc.zIndex}
-          onFocus={() => bringToFront("npc")}
-          initialMessage="Greetings, traveler. How may I assist you on your quest today?"
-          ref={terminalRefs.npc}
+      {pendingConnection && (
+        <ConnectionDialog
+          windowNames={pendingConnection.flatMap((id) => {
+            const w = getWindowById(id)
+            return w ? [getWindowTitle(w, getThemeById(w.themeId, themes))] : []
+          })}
+          onConfirm={handleConfirmConnection}
+          onCancel={() => setPendingConnection(null)}
         />
       )}
 
-      {terminals.void.isOpen && (
-        <TerminalWindow
-          id="void"
-          theme={voidTheme}
-          onClose={minimizeVoidToToolbar}
-          onFullscreenChange={setVoidFullscreen}
-          onSaveState={saveVoidState}
-          isActive={activeFullscreen === "void" || activeFullscreen === null}
-          initialPosition={voidInitialPosition}
-          savedMessages={terminals.void.messages}
-          savedScrollPosition={terminals.void.scrollPosition}
-          zIndex={terminals.void.zIndex}
-          onFocus={() => bringToFront("void")}
-          initialMessage="You have connected to the void. What secrets do you seek in the darkness?"
-          ref={terminalRefs.void}
-        />
+      {isDraggingFile && (
+        <div className="fixed inset-4 z-[60] pointer-events-none flex items-center justify-center rounded-lg border-2 border-dashed border-[#8a857d] bg-[#f7f5f0]/70 font-mono text-sm text-[#5a5751]">
+          Drop a chat export (.json) to open it in a terminal
+        </div>
       )}
 
-      {terminals.group.isOpen && (
-        <GroupChatWindow
-          onClose={minimizeGroupToToolbar}
-          onFullscreenChange={setGroupFullscreen}
-          onSaveState={saveGroupState}
-          isActive={activeFullscreen === "group" || activeFullscreen === null}
-          initialPosition={groupInitialPosition}
-          savedMessages={terminals.group.messages as Message[]}
-          savedScrollPosition={terminals.group.scrollPosition}
-          zIndex={terminals.group.zIndex}
-          onFocus={() => bringToFront("group")}
-          connectedWindows={getConnectedWindowNames()}
-        />
+      {importNotice && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] px-3 py-2 rounded-md border border-[#c8c3b8] bg-[#f0ede6] shadow-sm font-mono text-xs text-[#5a5751]">
+          {importNotice}
+        </div>
       )}
 
-      {isTermWinV2Open && (
-        <TermWinV2
-          ref={termWinV2Ref}
-          id="v2-terminal"
-          theme={defaultTheme}
-          initialPosition={v2InitialPosition}
-          savedScrollPosition={0}
-          zIndex={termWinV2ZIndex}
-          initialMessage="Welcome to Terminal V2!"
-          savedMessages={[]}
-          isActive={activeFullscreen === 'v2' || activeFullscreen === null}
-          onClose={handleV2Close}
-          onFullscreenChange={handleV2FullscreenChange}
-          onFocus={bringV2ToFront}
+      {editingTheme && (
+        <ThemeEditorWindow
+          theme={editingTheme.theme}
+          isNew={editingTheme.isNew}
+          onSave={saveTheme}
+          onDelete={editingTheme.isNew ? undefined : () => deleteTheme(editingTheme.theme.id)}
+          onClose={() => setEditingTheme(null)}
         />
       )}
 
@@ -708,13 +710,13 @@ export default function Home() {
       {activeFullscreen && (
         <>
           <Button
-            onClick={() => cycleFullscreen("prev")}
+            onClick={() => dispatch({ type: "cycleFullscreen", direction: "prev" })}
             className="fixed left-4 top-1/2 transform -translate-y-1/2 z-50 bg-black/20 hover:bg-black/40 backdrop-blur-sm rounded-full h-10 w-10 p-0"
           >
             <ChevronLeft size={20} />
           </Button>
           <Button
-            onClick={() => cycleFullscreen("next")}
+            onClick={() => dispatch({ type: "cycleFullscreen", direction: "next" })}
             className="fixed right-4 top-1/2 transform -translate-y-1/2 z-50 bg-black/20 hover:bg-black/40 backdrop-blur-sm rounded-full h-10 w-10 p-0"
           >
             <ChevronRight size={20} />
@@ -724,104 +726,9 @@ export default function Home() {
 
       {isTaskbarVisible && (
         <div className="fixed bottom-0 left-0 right-0 h-12 bg-[#e5e1d8] border-t border-[#c8c3b8] flex items-center justify-end px-4 z-50">
-          <div className="flex items-center gap-2">
-            <div className={terminals.default.isToolbarMinimized ? "block" : "hidden"}>
-              <div className="flex items-center">
-                <Button
-                  onClick={openDefaultChat}
-                  variant="ghost"
-                  className="h-8 px-3 bg-[#e5e1d8] text-[#5a5751] hover:bg-[#d9d4c9] hover:text-[#3d3b36] flex items-center gap-2 rounded-md rounded-r-none"
-                >
-                  <div className="h-2 w-2 rounded-full bg-[#d9b38c]"></div>
-                  <span className="font-mono text-xs">TERMINAL_v2.3</span>
-                </Button>
-                <Button
-                  onClick={() => closeTerminal("default")}
-                  variant="ghost"
-                  className="h-8 px-2 bg-[#e5e1d8] text-[#5a5751] hover:bg-[#d9d4c9] hover:text-[#3d3b36] rounded-md rounded-l-none border-l border-[#c8c3b8]"
-                >
-                  <X size={12} />
-                </Button>
-              </div>
-            </div>
-
-            <div className={terminals.npc.isToolbarMinimized ? "block" : "hidden"}>
-              <div className="flex items-center">
-                <Button
-                  onClick={openNPCChat}
-                  variant="ghost"
-                  className="h-8 px-3 bg-[#0f3a1a] text-[#a3ffb0] hover:bg-[#1a4a25] hover:text-[#d0ffd8] flex items-center gap-2 rounded-md rounded-r-none"
-                >
-                  <div className="h-2 w-2 rounded-full bg-[#5aff70]"></div>
-                  <span className="font-mono text-xs">NPC_TERMINAL</span>
-                </Button>
-                <Button
-                  onClick={() => closeTerminal("npc")}
-                  variant="ghost"
-                  className="h-8 px-2 bg-[#0f3a1a] text-[#a3ffb0] hover:bg-[#1a4a25] hover:text-[#d0ffd8] rounded-md rounded-l-none border-l border-[#2a5a30]"
-                >
-                  <X size={12} />
-                </Button>
-              </div>
-            </div>
-
-            <div className={terminals.void.isToolbarMinimized ? "block" : "hidden"}>
-              <div className="flex items-center">
-                <Button
-                  onClick={openVoidChat}
-                  variant="ghost"
-                  className="h-8 px-3 bg-[#1d0e35] text-[#c9b8e0] hover:bg-[#2d1b4a] hover:text-[#e2d8f0] flex items-center gap-2 rounded-md rounded-r-none"
-                >
-                  <div className="h-2 w-2 rounded-full bg-[#b56cff]"></div>
-                  <span className="font-mono text-xs">VOID_TERMINAL</span>
-                </Button>
-                <Button
-                  onClick={() => closeTerminal("void")}
-                  variant="ghost"
-                  className="h-8 px-2 bg-[#1d0e35] text-[#c9b8e0] hover:bg-[#2d1b4a] hover:text-[#e2d8f0] rounded-md rounded-l-none border-l border-[#4a2a7a]"
-                >
-                  <X size={12} />
-                </Button>
-              </div>
-            </div>
-
-            <div className={terminals.group.isToolbarMinimized ? "block" : "hidden"}>
-              <div className="flex items-center">
-                <Button
-                  onClick={() => {
-                    setTerminals((prev) => ({
-                      ...prev,
-                      group: {
-                        ...prev.group,
-                        isToolbarMinimized: false,
-                        isOpen: true,
-                      },
-                    }))
-                    bringToFront("group")
-                  }}
-                  variant="ghost"
-                  className="h-8 px-3 bg-gradient-to-r from-[#0f3a1a] via-[#e5e1d8] to-[#1d0e35] text-[#5a5751] hover:opacity-90 flex items-center gap-2 rounded-md rounded-r-none"
-                >
-                  <div className="flex space-x-1">
-                    <div className="h-2 w-2 rounded-full bg-[#5aff70]"></div>
-                    <div className="h-2 w-2 rounded-full bg-[#d9b38c]"></div>
-                    <div className="h-2 w-2 rounded-full bg-[#b56cff]"></div>
-                  </div>
-                  <span className="font-mono text-xs">GROUP_CHAT</span>
-                </Button>
-                <Button
-                  onClick={() => closeTerminal("group")}
-                  variant="ghost"
-                  className="h-8 px-2 bg-gradient-to-r from-[#0f3a1a] via-[#e5e1d8] to-[#1d0e35] text-[#5a5751] hover:opacity-90 rounded-md rounded-l-none border-l border-[#c8c3b8]"
-                >
-                  <X size={12} />
-                </Button>
-              </div>
-            </div>
-          </div>
+          <div className="flex items-center gap-2">{minimizedWindows.map(renderTaskbarEntry)}</div>
         </div>
       )}
     </main>
   )
 }
-
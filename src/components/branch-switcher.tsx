@@ -0,0 +1,32 @@
+"use client"
+
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { TerminalMessage } from "@/types/terminal-types"
+
+interface BranchSwitcherProps {
+    // The message on screen and its alternatives, oldest first
+    siblings: TerminalMessage[]
+    currentId: string
+    onSelect: (id: string) => void
+    disabled?: boolean
+    className?: string
+}
+
+// "< 2/3 >" on a message that was edited or regenerated, stepping through its alternatives
+export default function BranchSwitcher({ siblings, currentId, onSelect, disabled, className }: BranchSwitcherProps) {
+    const index = siblings.findIndex((message) => message.id === currentId)
+    if (siblings.length < 2 || index === -1) return null
+
+    return (
+        <span className={cn("flex items-center gap-0.5 tabular-nums", className)}>
+            <button type="button" className="opacity-60 hover:opacity-100 disabled:opacity-30" title="Previous branch" disabled={disabled || index === 0} onClick={() => onSelect(siblings[index - 1].id)}>
+                <ChevronLeft size={12} />
+            </button>
+            {index + 1}/{siblings.length}
+            <button type="button" className="opacity-60 hover:opacity-100 disabled:opacity-30" title="Next branch" disabled={disabled || index === siblings.length - 1} onClick={() => onSelect(siblings[index + 1].id)}>
+                <ChevronRight size={12} />
+            </button>
+        </span>
+    )
+}
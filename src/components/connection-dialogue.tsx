@@ -6,13 +6,12 @@ import { X } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 
 interface ConnectionDialogProps {
-    window1Name: string
-    window2Name: string
+    windowNames: string[]
     onConfirm: () => void
     onCancel: () => void
 }
 
-export default function ConnectionDialog({ window1Name, window2Name, onConfirm, onCancel }: ConnectionDialogProps) {
+export default function ConnectionDialog({ windowNames, onConfirm, onCancel }: ConnectionDialogProps) {
     const [isVisible, setIsVisible] = useState(false)
 
     useEffect(() => {
@@ -55,8 +54,14 @@ export default function ConnectionDialog({ window1Name, window2Name, onConfirm,
                         </div>
 
                         <p className="text-[#5a5751] mb-6">
-                            Would you like to enter a group chat with <span className="font-semibold">{window1Name}</span> and{" "}
-                            <span className="font-semibold">{window2Name}</span>?
+                            Would you like to enter a group chat with{" "}
+                            {windowNames.map((name, index) => (
+                                <span key={name}>
+                                    {index > 0 && (index === windowNames.length - 1 ? " and " : ", ")}
+                                    <span className="font-semibold">{name}</span>
+                                </span>
+                            ))}
+                            ?
                         </p>
 
                         <div className="flex justify-end space-x-3">
@@ -0,0 +1,148 @@
+"use client"
+
+import { useState } from "react"
+import { motion, useTransform, type MotionValue } from "framer-motion"
+import { Settings, Unlink, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+// Position and size of a draggable window, as framer-motion values
+export interface WindowMotion {
+    x: MotionValue<number>
+    y: MotionValue<number>
+    width: MotionValue<number>
+    height: MotionValue<number>
+}
+
+export interface ConnectionLink {
+    id: string
+    from: string
+    to: string
+    label: string
+    color: string
+}
+
+interface ConnectionLinesProps {
+    windows: Record<string, WindowMotion | undefined>
+    links: ConnectionLink[]
+    zIndex: number
+    onOpenSettings: (link: ConnectionLink) => void
+    onDisconnect: (link: ConnectionLink) => void
+}
+
+// Where the line from a window's center towards (dx, dy) leaves the window's border
+const edgePoint = (x: number, y: number, width: number, height: number, dx: number, dy: number) => {
+    const cx = x + width / 2
+    const cy = y + height / 2
+    if (dx === 0 && dy === 0) return { x: cx, y: cy }
+    const scale = Math.min(dx === 0 ? Infinity : width / 2 / Math.abs(dx), dy === 0 ? Infinity : height / 2 / Math.abs(dy))
+    return { x: cx + dx * Math.min(scale, 1), y: cy + dy * Math.min(scale, 1) }
+}
+
+function LinkPath({
+    from,
+    to,
+    link,
+    onSelect,
+}: {
+    from: WindowMotion
+    to: WindowMotion
+    link: ConnectionLink
+    onSelect: (link: ConnectionLink, point: { x: number; y: number }) => void
+}) {
+    // Recomputed whenever either window moves or resizes, including mid-drag
+    const d = useTransform(
+        [from.x, from.y, from.width, from.height, to.x, to.y, to.width, to.height],
+        ([fx, fy, fw, fh, tx, ty, tw, th]: number[]) => {
+            const dx = tx + tw / 2 - (fx + fw / 2)
+            const dy = ty + th / 2 - (fy + fh / 2)
+            const start = edgePoint(fx, fy, fw, fh, dx, dy)
+            const end = edgePoint(tx, ty, tw, th, -dx, -dy)
+            // Gentle curve bowed perpendicular to the line
+            const midX = (start.x + end.x) / 2 - (end.y - start.y) * 0.15
+            const midY = (start.y + end.y) / 2 + (end.x - start.x) * 0.15
+            return `M ${start.x} ${start.y} Q ${midX} ${midY} ${end.x} ${end.y}`
+        },
+    )
+
+    return (
+        <g className="cursor-pointer" onClick={(e) => onSelect(link, { x: e.clientX, y: e.clientY })}>
+            {/* Wide transparent stroke makes the thin line easy to click */}
+            <motion.path d={d} stroke="transparent" strokeWidth={14} fill="none" style={{ pointerEvents: "stroke" }} />
+            <motion.path
+                d={d}
+                stroke={link.color}
+                strokeWidth={2}
+                strokeDasharray="6 6"
+                fill="none"
+                opacity={0.8}
+                animate={{ strokeDashoffset: [0, -24] }}
+                transition={{ repeat: Infinity, duration: 1.2, ease: "linear" }}
+                style={{ pointerEvents: "none" }}
+            />
+        </g>
+    )
+}
+
+export default function ConnectionLines({ windows, links, zIndex, onOpenSettings, onDisconnect }: ConnectionLinesProps) {
+    const [selected, setSelected] = useState<{ link: ConnectionLink; x: number; y: number } | null>(null)
+
+    // Links are only drawn while both windows are mounted
+    const visibleLinks = links.filter((link) => windows[link.from] && windows[link.to])
+    const selectedLink = selected && visibleLinks.find((link) => link.id === selected.link.id)
+
+    return (
+        <>
+            <svg className="fixed inset-0 w-full h-full pointer-events-none" style={{ zIndex }}>
+                {visibleLinks.map((link) => (
+                    <LinkPath
+                        key={link.id}
+                        from={windows[link.from]!}
+                        to={windows[link.to]!}
+                        link={link}
+                        onSelect={(link, point) => setSelected({ link, ...point })}
+                    />
+                ))}
+            </svg>
+
+            {selected && selectedLink && (
+                <div
+                    className="fixed font-mono text-xs bg-[#f0ede6] border border-[#c8c3b8] rounded-md shadow-lg p-2"
+                    style={{ left: selected.x + 8, top: selected.y + 8, zIndex: zIndex + 1 }}
+                >
+                    <div className="flex items-center justify-between mb-2 text-[#5a5751]">
+                        <span className="font-semibold">{selectedLink.label}</span>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5 ml-2 text-[#5a5751] hover:bg-[#d9d4c9]"
+                            onClick={() => setSelected(null)}
+                        >
+                            <X size={12} />
+                        </Button>
+                    </div>
+                    <div className="flex space-x-2">
+                        <Button
+                            variant="outline"
+                            className="h-7 px-2 text-xs border-[#c8c3b8] text-[#5a5751] hover:bg-[#d9d4c9]"
+                            onClick={() => {
+                                onOpenSettings(selectedLink)
+                                setSelected(null)
+                            }}
+                        >
+                            <Settings size={12} className="mr-1" /> Settings
+                        </Button>
+                        <Button
+                            className="h-7 px-2 text-xs bg-[#d9b38c] hover:bg-[#c9a37c] text-[#3d3b36]"
+                            onClick={() => {
+                                onDisconnect(selectedLink)
+                                setSelected(null)
+                            }}
+                        >
+                            <Unlink size={12} className="mr-1" /> Disconnect
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </>
+    )
+}
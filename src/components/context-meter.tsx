@@ -0,0 +1,35 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+import type { ContextUsage } from "@/lib/context-budget"
+import type { ContextPolicy } from "@/types/terminal-types"
+
+interface ContextMeterProps {
+    usage: ContextUsage
+    policy?: ContextPolicy
+    // Theme classes from the window's header
+    barClassName?: string
+    className?: string
+}
+
+const formatTokens = (tokens: number) => (tokens >= 10_000 ? `${Math.round(tokens / 1000)}k` : tokens.toLocaleString())
+
+// How much of the context budget the next request would use. Past 100% the oldest turns are left out or summarized.
+export default function ContextMeter({ usage, policy = "trim", barClassName, className }: ContextMeterProps) {
+    const percent = usage.budget > 0 ? Math.round((usage.tokens / usage.budget) * 100) : 100
+    const overflow = policy === "summarize" ? "summarized" : "left out"
+    const title =
+        `About ${formatTokens(usage.tokens)} of ${formatTokens(usage.budget)} tokens ` +
+        `(${formatTokens(usage.contextWindow)} context window, less the room kept for the reply). ` +
+        (percent > 100 ? `The oldest messages are ${overflow} to fit.` : `Past 100%, the oldest messages are ${overflow}.`)
+
+    return (
+        <span className={cn("flex items-center gap-1 text-xs tabular-nums", className)} title={title}>
+            <span className="relative h-1.5 w-10 overflow-hidden rounded-full">
+                <span className="absolute inset-0 bg-current opacity-20" />
+                <span className={cn("absolute inset-y-0 left-0", barClassName)} style={{ width: `${Math.min(percent, 100)}%` }} />
+            </span>
+            <span className={cn(percent <= 100 && "opacity-70")}>{percent}%</span>
+        </span>
+    )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useMemo } from "react"
+import { X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { getMessageText } from "@/lib/messages"
+import { getBranch, getBranches, getMessageTreeRows } from "@/lib/message-tree"
+import type { TerminalStyle } from "@/lib/terminal-themes"
+import type { MessageTree, TerminalMessage } from "@/types/terminal-types"
+
+interface ConversationMinimapProps {
+    tree: MessageTree
+    styles: TerminalStyle
+    // Sender name as the window shows it
+    getSenderName: (message: TerminalMessage) => string
+    // Shows the branch through a message
+    onSelect: (id: string) => void
+    onClose: () => void
+    disabled?: boolean
+}
+
+// Outline of every branch of a conversation, drawn over the terminal; the branch on screen is highlighted
+export default function ConversationMinimap({ tree, styles, getSenderName, onSelect, onClose, disabled }: ConversationMinimapProps) {
+    const rows = useMemo(() => getMessageTreeRows(tree), [tree])
+    const branchCount = useMemo(() => getBranches(tree).length, [tree])
+    const onScreen = useMemo(() => new Set(getBranch(tree).map((message) => message.id)), [tree])
+
+    return (
+        <div className={cn("absolute right-2 top-12 z-20 flex w-72 max-h-[70%] flex-col rounded border text-xs shadow-lg", styles.headerBackground, styles.headerBorder, styles.headerText)}>
+            <div className={cn("flex items-center justify-between border-b px-2 py-1", styles.headerBorder)}>
+                <span className="font-semibold tracking-wide">
+                    TREE <span className={styles.timestampText}>{tree.messages.length} messages, {branchCount} {branchCount === 1 ? "branch" : "branches"}</span>
+                </span>
+                <button type="button" className="opacity-60 hover:opacity-100" title="Close" onClick={onClose}>
+                    <X size={12} />
+                </button>
+            </div>
+            <div className="overflow-y-auto py-1">
+                {rows.map(({ message, depth, isFork }) => (
+                    <button
+                        key={message.id}
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => onSelect(message.id)}
+                        className={cn("block w-full truncate px-2 py-0.5 text-left", onScreen.has(message.id) ? cn("font-semibold", styles.messageBackground, styles.messageText) : "opacity-70 hover:opacity-100")}
+                        style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+                        title={getMessageText(message)}
+                    >
+                        {isFork && "↳ "}
+                        {getSenderName(message)}: {getMessageText(message) || "…"}
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/chat-export"
+
+interface ExportMenuProps {
+    onExport: (format: ExportFormat, allBranches: boolean) => void
+    // Offers to export every branch when the conversation has more than one
+    hasBranches?: boolean
+    // Theme classes from the window this menu sits in
+    buttonClassName?: string
+    menuClassName?: string
+}
+
+export default function ExportMenu({ onExport, hasBranches = false, buttonClassName, menuClassName }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [allBranches, setAllBranches] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    // Close when clicking anywhere else
+    useEffect(() => {
+        if (!isOpen) return
+        const handlePointerDown = (e: PointerEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+        }
+        document.addEventListener("pointerdown", handlePointerDown)
+        return () => document.removeEventListener("pointerdown", handlePointerDown)
+    }, [isOpen])
+
+    return (
+        <div ref={containerRef} className="relative">
+            <Button
+                variant="ghost"
+                size="icon"
+                className={cn("h-6 w-6", buttonClassName)}
+                onClick={() => setIsOpen((open) => !open)}
+                title="Export chat"
+            >
+                <Download size={14} />
+            </Button>
+            {isOpen && (
+                <div className={cn("absolute right-0 top-7 z-10 min-w-44 rounded border py-1 text-xs shadow-lg", menuClassName)}>
+                    {hasBranches && (
+                        <label className="flex items-center gap-2 border-b px-3 pb-1 mb-1 cursor-pointer">
+                            <input type="checkbox" checked={allBranches} onChange={(e) => setAllBranches(e.target.checked)} />
+                            All branches
+                        </label>
+                    )}
+                    {EXPORT_FORMATS.map((format) => (
+                        <button
+                            key={format.id}
+                            className="block w-full px-3 py-1 text-left hover:opacity-70"
+                            onClick={() => {
+                                onExport(format.id, hasBranches && allBranches)
+                                setIsOpen(false)
+                            }}
+                        >
+                            {format.label} <span className="opacity-60">.{format.extension}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
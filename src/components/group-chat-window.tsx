@@ -4,28 +4,34 @@ import type React from "react"
 import { useState, useRef, useEffect } from "react"
 import { X, Minimize, Maximize, ChevronDown, ChevronUp, Send, Users } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
+import TerminalInput from "@/components/terminal-input"
+import MarkdownMessage from "@/components/markdown-message"
 import { cn } from "@/lib/utils"
+import { decodeChatStream } from "@/lib/chat-stream"
+import { defaultTheme, type TerminalTheme } from "@/lib/terminal-themes"
+import { MAX_GROUP_CHAT_ROUNDS, TURN_POLICIES, type TurnPolicy, parseMentions } from "@/lib/turn-policies"
 import { motion, useMotionValue, type PanInfo } from "framer-motion"
+import type { WindowMotion } from "@/components/connection-lines"
+import type { InputHistoryProps, TerminalMessage } from "@/types/terminal-types"
+import { appendMessageText, createMessage, getMessageText, SYSTEM_AGENT_ID, updateMessageMetadata, USER_AGENT_ID } from "@/lib/messages"
 
-interface Message {
-    id: string
-    content: string
-    sender: "user" | "system" | "npc" | "void"
-    timestamp: Date
-}
-
-interface GroupChatWindowProps {
+interface GroupChatWindowProps extends InputHistoryProps {
     onClose: () => void
     onFullscreenChange: (isFullscreen: boolean) => void
-    onSaveState: (messages: Message[], scrollPosition: number) => void
+    onSaveState: (state: { messages: TerminalMessage[]; scrollPosition: number }) => void
     isActive: boolean
     initialPosition: { x: number; y: number }
-    savedMessages?: Message[]
+    savedMessages?: TerminalMessage[]
     savedScrollPosition?: number
     zIndex: number
     onFocus: () => void
-    connectedWindows: string[]
+    participants: TerminalTheme[]
+    // Open terminals that are not in the chat yet
+    availableParticipants: TerminalTheme[]
+    onAddParticipant: (id: string) => void
+    onRemoveParticipant: (id: string) => void
+    // Receives the window's motion values so connection lines can follow it
+    onMotionReady?: (motion: WindowMotion) => void
 }
 
 export default function GroupChatWindow({
@@ -38,22 +44,35 @@ export default function GroupChatWindow({
     savedScrollPosition = 0,
     zIndex,
     onFocus,
-    connectedWindows,
+    participants,
+    availableParticipants,
+    onAddParticipant,
+    onRemoveParticipant,
+    onMotionReady,
+    inputHistory = [],
+    onInputEntered,
 }: GroupChatWindowProps) {
     // Core state
     const [isFullscreen, setIsFullscreen] = useState(false)
     const [isMinimized, setIsMinimized] = useState(false)
     const [inputValue, setInputValue] = useState("")
-    const [messages, setMessages] = useState<Message[]>(
+    // Id of the participant message currently receiving streamed tokens
+    const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+    // True for the whole /api/group-chat request, including the moderator's picks between turns
+    const [isSending, setIsSending] = useState(false)
+    // Who gets to speak after each user message
+    const [turnPolicy, setTurnPolicy] = useState<TurnPolicy>("round-robin")
+    const [rounds, setRounds] = useState(2)
+    const [messages, setMessages] = useState<TerminalMessage[]>(
         savedMessages.length > 0
             ? savedMessages
             : [
-                {
+                createMessage({
                     id: "1",
-                    content: "Welcome to the group chat. Multiple AI assistants are available to help you.",
-                    sender: "system",
-                    timestamp: new Date(),
-                },
+                    role: "system",
+                    agentId: SYSTEM_AGENT_ID,
+                    text: "Welcome to the group chat. Multiple AI assistants are available to help you.",
+                }),
             ],
     )
 
@@ -86,17 +105,23 @@ export default function GroupChatWindow({
     // Track if we're in the middle of a state transition
     const [isTransitioning, setIsTransitioning] = useState(false)
 
+    // Latest state for the unmount save, which would otherwise see the first render's messages
+    const latestStateRef = useRef({ messages, savedScrollPos, onSaveState })
+    latestStateRef.current = { messages, savedScrollPos, onSaveState }
+
     // Save state before unmounting
     useEffect(() => {
         return () => {
-            if (messagesContainerRef.current) {
-                onSaveState(messages, messagesContainerRef.current.scrollTop)
-            } else {
-                onSaveState(messages, savedScrollPos)
-            }
+            const { messages, savedScrollPos, onSaveState } = latestStateRef.current
+            onSaveState({ messages, scrollPosition: messagesContainerRef.current?.scrollTop ?? savedScrollPos })
         }
     }, []) // Empty dependency array - this only runs on unmount
 
+    // Share motion values with the connection lines overlay
+    useEffect(() => {
+        onMotionReady?.({ x, y, width, height })
+    }, [onMotionReady, x, y, width, height])
+
     // Save position and size before going fullscreen
     useEffect(() => {
         if (isFullscreen) {
@@ -156,7 +181,7 @@ export default function GroupChatWindow({
         // Only save state when messages actually change and after a small delay
         const saveTimeout = setTimeout(() => {
             if (messagesContainerRef.current) {
-                onSaveState(messages, messagesContainerRef.current.scrollTop)
+                onSaveState({ messages, scrollPosition: messagesContainerRef.current.scrollTop })
             }
         }, 500)
 
@@ -235,66 +260,103 @@ export default function GroupChatWindow({
         }
     }
 
-    // Handle sending messages
-    const handleSendMessage = () => {
-        if (!inputValue.trim()) return
+    // Handle sending messages: every participant replies in turn through /api/group-chat
+    const handleSendMessage = async () => {
+        if (!inputValue.trim() || isSending) return
+        onInputEntered?.(inputValue)
 
-        const newMessage: Message = {
-            id: Date.now().toString(),
-            content: inputValue,
-            sender: "user",
-            timestamp: new Date(),
-        }
+        const newMessage = createMessage({ role: "user", agentId: USER_AGENT_ID, text: inputValue })
+        // App notices shown in the window and never sent to the agents
+        const notice = (text: string) => createMessage({ role: "system", agentId: SYSTEM_AGENT_ID, text })
 
-        setMessages([...messages, newMessage])
+        const history = [...messages, newMessage]
+        setMessages(history)
         setInputValue("")
 
-        // Simulate responses from both AI assistants after a short delay
-        setTimeout(() => {
-            // NPC response
-            const npcResponses = [
-                "I've been in this village for many years. I can tell you about our local history.",
-                "You'll need better equipment if you want to venture into the forest.",
-                "Have you spoken with the blacksmith yet? He might have a quest for you.",
-                "Rumors say there's a hidden treasure in the mountains to the north.",
-                "I don't have any more quests for you at this time. Check back later.",
-            ]
-
-            const npcMessage: Message = {
-                id: (Date.now() + 1).toString(),
-                content: npcResponses[Math.floor(Math.random() * npcResponses.length)],
-                sender: "npc",
-                timestamp: new Date(),
-            }
-
-            setMessages((prev) => [...prev, npcMessage])
+        if (participants.length === 0) {
+            setMessages((prev) => [
+                ...prev,
+                notice("No terminals are connected. Add one to get a reply."),
+            ])
+            return
+        }
 
-            // Void response with a slightly longer delay
-            setTimeout(() => {
-                const voidResponses = [
-                    "The void whispers secrets that mortal minds cannot comprehend.",
-                    "Stars die and are born in the endless expanse. Your question is but a fleeting moment.",
-                    "The patterns you seek are illusions. Embrace the chaos of the cosmos.",
-                    "Time is a construct. In the void, all moments exist simultaneously.",
-                    "Your consciousness is a mere ripple in the infinite darkness.",
-                ]
-
-                const voidMessage: Message = {
-                    id: (Date.now() + 2).toString(),
-                    content: voidResponses[Math.floor(Math.random() * voidResponses.length)],
-                    sender: "void",
-                    timestamp: new Date(),
-                }
+        if (turnPolicy === "addressed" && parseMentions(inputValue, participants).length === 0) {
+            const handles = participants.map((p) => `@${p.id}`).join(", ")
+            setMessages((prev) => [
+                ...prev,
+                notice(`No one was addressed. Mention ${handles} to get a reply.`),
+            ])
+            return
+        }
 
-                setMessages((prev) => [...prev, voidMessage])
-            }, 800)
-        }, 1000)
-    }
+        const updateMessage = (messageId: string, update: (message: TerminalMessage) => TerminalMessage) => {
+            setMessages((prev) => prev.map((msg) => (msg.id === messageId ? update(msg) : msg)))
+        }
+        const appendToMessage = (messageId: string, text: string) => updateMessage(messageId, (msg) => appendMessageText(msg, text))
+
+        // System announcements are local to the window and not part of the conversation
+        const transcript = history.filter((msg) => msg.role !== "system")
+
+        // Each turn gets its own message, keyed by the speaking participant
+        const turnMessageIds: Record<string, string> = {}
+        setIsSending(true)
+        try {
+            const response = await fetch("/api/group-chat", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    participants: participants.map(({ id, senderName, systemPrompt, llm }) => ({ id, senderName, systemPrompt, llm })),
+                    messages: transcript,
+                    policy: turnPolicy,
+                    rounds,
+                }),
+            })
+            if (!response.ok || !response.body) {
+                throw new Error((await response.text()) || `Request failed with status ${response.status}`)
+            }
 
-    const handleKeyDown = (e: React.KeyboardEvent) => {
-        if (e.key === "Enter" && !e.shiftKey) {
-            e.preventDefault()
-            handleSendMessage()
+            for await (const event of decodeChatStream(response.body)) {
+                if (event.type === "turn_start") {
+                    const llm = participants.find((p) => p.id === event.agentId)?.llm
+                    const turnMessage = createMessage({
+                        role: "assistant",
+                        agentId: event.agentId,
+                        metadata: llm && { provider: llm.provider, model: llm.model },
+                    })
+                    turnMessageIds[event.agentId] = turnMessage.id
+                    setMessages((prev) => [...prev, turnMessage])
+                    setStreamingMessageId(turnMessage.id)
+                } else if (event.type === "text" && event.agentId) {
+                    appendToMessage(turnMessageIds[event.agentId], event.text)
+                } else if (event.type === "usage" && event.agentId) {
+                    updateMessage(turnMessageIds[event.agentId], (msg) =>
+                        updateMessageMetadata(msg, { inputTokens: event.inputTokens, outputTokens: event.outputTokens }),
+                    )
+                } else if (event.type === "stop" && event.agentId) {
+                    updateMessage(turnMessageIds[event.agentId], (msg) => updateMessageMetadata(msg, { stopReason: event.reason }))
+                } else if (event.type === "error") {
+                    const messageId = event.agentId && turnMessageIds[event.agentId]
+                    if (messageId) {
+                        appendToMessage(messageId, `\n[ERROR] ${event.message}`)
+                        updateMessage(messageId, (msg) => updateMessageMetadata(msg, { error: event.message }))
+                    } else {
+                        // Errors outside a turn, such as the moderator's, have no message of their own
+                        setMessages((prev) => [...prev, notice(`[ERROR] ${event.message}`)])
+                    }
+                } else if (event.type === "turn_end") {
+                    setStreamingMessageId(null)
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error"
+            setMessages((prev) => [
+                ...prev,
+                notice(`[ERROR] ${errorMessage}`),
+            ])
+        } finally {
+            setStreamingMessageId(null)
+            setIsSending(false)
         }
     }
 
@@ -304,19 +366,24 @@ export default function GroupChatWindow({
     }
 
     // Get sender display name and style
-    const getSenderInfo = (sender: string) => {
-        switch (sender) {
+    const getSenderInfo = ({ role, agentId }: TerminalMessage) => {
+        switch (role) {
             case "system":
-                return { name: "SYSTEM", className: "bg-[#e5e1d8] text-[#5a5751] border-l-2 border-[#d9b38c]" }
+                return { name: "SYSTEM", className: "bg-[#e5e1d8] text-[#5a5751] border-l-2 border-[#d9b38c]", styles: defaultTheme.styles }
             case "user":
-                return { name: "USER", className: "bg-[#d9d4c9] text-[#3d3b36] ml-8" }
-            case "npc":
-                return { name: "NPC", className: "bg-[#0f3a1a] text-[#a3ffb0] border-l-2 border-[#5aff70]" }
-            case "void":
-                return { name: "VOID", className: "bg-[#1d0e35] text-[#c9b8e0] border-l-2 border-[#b56cff]" }
-            default:
-                return { name: "UNKNOWN", className: "bg-[#e5e1d8] text-[#5a5751]" }
+                return { name: "USER", className: "bg-[#d9d4c9] text-[#3d3b36] ml-8", styles: defaultTheme.styles }
+        }
+        // Participants are styled with their own terminal theme
+        const participant = participants.find((theme) => theme.id === agentId)
+        if (participant) {
+            return {
+                name: participant.senderName,
+                className: `${participant.styles.messageBackground} ${participant.styles.messageText} border-l-2 ${participant.styles.messageBorder}`,
+                styles: participant.styles,
+            }
         }
+        // Former participants that have since been removed
+        return { name: agentId.toUpperCase(), className: "bg-[#e5e1d8] text-[#5a5751] border-l-2 border-[#c8c3b8]", styles: defaultTheme.styles }
     }
 
     return (
@@ -390,12 +457,62 @@ export default function GroupChatWindow({
 
                 {/* Connection status indicator */}
                 <div className="bg-[#f0ede6] border-b border-[#c8c3b8] px-3 py-1 flex items-center justify-between">
-                    <div className="flex items-center">
-                        <span className="text-xs text-[#5a5751]">Connected terminals: {connectedWindows.join(", ")}</span>
+                    <div className="flex items-center flex-wrap gap-1">
+                        <div className={cn("h-2 w-2 rounded-full", participants.length > 0 ? "bg-green-500" : "bg-[#c8c3b8]")}></div>
+                        {participants.map((participant) => (
+                            <span
+                                key={participant.id}
+                                className="flex items-center text-xs text-[#5a5751] bg-[#e5e1d8] border border-[#c8c3b8] rounded px-1"
+                            >
+                                {participant.senderName}
+                                <button
+                                    onClick={() => onRemoveParticipant(participant.id)}
+                                    className="ml-1 hover:text-[#3d3b36]"
+                                    title={`Disconnect ${participant.name}`}
+                                >
+                                    <X size={10} />
+                                </button>
+                            </span>
+                        ))}
+                        {availableParticipants.length > 0 && (
+                            <select
+                                value=""
+                                onChange={(e) => e.target.value && onAddParticipant(e.target.value)}
+                                className="text-xs text-[#5a5751] bg-[#f0ede6] border border-dashed border-[#c8c3b8] rounded px-1"
+                            >
+                                <option value="">+ add</option>
+                                {availableParticipants.map((theme) => (
+                                    <option key={theme.id} value={theme.id}>
+                                        {theme.name}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
                     </div>
-                    <div className="flex items-center space-x-1">
-                        <div className="h-2 w-2 rounded-full bg-green-500"></div>
-                        <span className="text-xs text-[#5a5751]">Active connection</span>
+                    <div className="flex items-center space-x-2">
+                        <select
+                            value={turnPolicy}
+                            onChange={(e) => setTurnPolicy(e.target.value as TurnPolicy)}
+                            title={TURN_POLICIES.find((policy) => policy.id === turnPolicy)?.description}
+                            className="text-xs text-[#5a5751] bg-[#e5e1d8] border border-[#c8c3b8] rounded px-1"
+                        >
+                            {TURN_POLICIES.map((policy) => (
+                                <option key={policy.id} value={policy.id}>
+                                    {policy.label}
+                                </option>
+                            ))}
+                        </select>
+                        {(turnPolicy === "free-for-all" || turnPolicy === "moderator") && (
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_GROUP_CHAT_ROUNDS}
+                                value={rounds}
+                                onChange={(e) => setRounds(Math.min(MAX_GROUP_CHAT_ROUNDS, Math.max(1, Number(e.target.value) || 1)))}
+                                title={turnPolicy === "moderator" ? "Maximum moderator-picked turns" : "Rounds"}
+                                className="w-10 text-xs text-[#5a5751] bg-[#e5e1d8] border border-[#c8c3b8] rounded px-1"
+                            />
+                        )}
                     </div>
                 </div>
 
@@ -432,14 +549,18 @@ export default function GroupChatWindow({
 
                             <div className="grid gap-3">
                                 {messages.map((message) => {
-                                    const { name, className } = getSenderInfo(message.sender)
+                                    const { name, className, styles } = getSenderInfo(message)
                                     return (
                                         <div key={message.id} className={cn("px-3 py-2 rounded", className)}>
                                             <div className="flex justify-between items-start mb-1">
                                                 <span className="text-xs font-semibold">{name}</span>
                                                 <span className="text-xs text-[#8a857d]">{formatTime(message.timestamp)}</span>
                                             </div>
-                                            <p className="whitespace-pre-wrap">{message.content}</p>
+                                            {message.role === "assistant" ? (
+                                                <MarkdownMessage text={getMessageText(message)} styles={styles} trailing={message.id === streamingMessageId && <span className="animate-pulse">▌</span>} />
+                                            ) : (
+                                                <p className="whitespace-pre-wrap">{getMessageText(message)}</p>
+                                            )}
                                         </div>
                                     )
                                 })}
@@ -449,20 +570,18 @@ export default function GroupChatWindow({
 
                         {/* Chat input */}
                         <div className="chat-input p-3 bg-[#e5e1d8] border-t border-[#c8c3b8]">
-                            <div className="flex items-center space-x-2">
-                                <div className="flex-1 relative">
-                                    <Input
-                                        value={inputValue}
-                                        onChange={(e) => setInputValue(e.target.value)}
-                                        onKeyDown={handleKeyDown}
-                                        placeholder="Type a message..."
-                                        className="bg-[#f0ede6] border-[#c8c3b8] focus-visible:ring-[#d9b38c] placeholder:text-[#a39e94]"
-                                    />
-                                    <div className="absolute left-2 top-0 text-[#8a857d] text-xs font-mono opacity-70 pointer-events-none">
-                                        {inputValue ? "" : "> "}
-                                    </div>
-                                </div>
-                                <Button onClick={handleSendMessage} className="bg-[#d9b38c] hover:bg-[#c9a37c] text-[#3d3b36]">
+                            <div className="flex items-end space-x-2">
+                                <TerminalInput
+                                    value={inputValue}
+                                    onChange={setInputValue}
+                                    onSubmit={handleSendMessage}
+                                    history={inputHistory}
+                                    disabled={isSending}
+                                    placeholder="Type a message..."
+                                    className="bg-[#f0ede6] border-[#c8c3b8] focus-visible:ring-[#d9b38c] placeholder:text-[#a39e94]"
+                                    promptClassName="text-[#8a857d]"
+                                />
+                                <Button onClick={handleSendMessage} disabled={isSending} className="bg-[#d9b38c] hover:bg-[#c9a37c] text-[#3d3b36]">
                                     <Send size={16} />
                                 </Button>
                             </div>
@@ -0,0 +1,204 @@
+"use client"
+
+import type React from "react"
+import { memo, useEffect, useMemo, useState } from "react"
+import { Check, Copy } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { TerminalStyle } from "@/lib/terminal-themes"
+import { parseMarkdown, splitMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown"
+import { highlightCode, type CodeTokenType } from "@/lib/syntax-highlight"
+
+interface MarkdownMessageProps {
+    text: string
+    // Palette of the window the message is shown in
+    styles: TerminalStyle
+    // Appended to the last block, e.g. the cursor of a reply that is still streaming
+    trailing?: React.ReactNode
+}
+
+const getHex = (value: string) => value.match(/#[0-9a-fA-F]{6}\b/)?.[0]
+
+// Code colors come from the theme: strings and numbers in its accent, comments like its timestamps
+const getTokenProps = (type: CodeTokenType, styles: TerminalStyle): React.HTMLAttributes<HTMLSpanElement> => {
+    switch (type) {
+        case "keyword":
+            return { className: "font-semibold" }
+        case "string":
+        case "number":
+            return { style: { color: getHex(styles.messageBorder) } }
+        case "comment":
+            return { className: cn("italic", styles.timestampText) }
+        case "plain":
+            return {}
+    }
+}
+
+function CodeBlock({ block, styles }: { block: Extract<MarkdownBlock, { type: "code" }>; styles: TerminalStyle }) {
+    const [copied, setCopied] = useState(false)
+    const tokens = useMemo(() => highlightCode(block.text, block.language), [block.text, block.language])
+
+    useEffect(() => {
+        if (!copied) return
+        const timer = setTimeout(() => setCopied(false), 1500)
+        return () => clearTimeout(timer)
+    }, [copied])
+
+    // The clipboard API is missing outside secure contexts; the button then does nothing
+    const copy = () => navigator.clipboard?.writeText(block.text).then(() => setCopied(true), () => {})
+
+    return (
+        <div className={cn("rounded border overflow-hidden", styles.border, styles.inputBackground)}>
+            <div className={cn("flex items-center justify-between px-2 py-1 border-b text-[11px]", styles.border, styles.timestampText)}>
+                <span className="uppercase tracking-wide">
+                    {block.language || "text"}
+                    {!block.closed && " ..."}
+                </span>
+                <button type="button" onClick={copy} className="flex items-center gap-1 hover:opacity-80" title="Copy code">
+                    {copied ? <Check size={12} /> : <Copy size={12} />}
+                    {copied ? "Copied" : "Copy"}
+                </button>
+            </div>
+            <pre className={cn("overflow-x-auto p-2 text-xs leading-relaxed", styles.inputText)}>
+                <code>
+                    {tokens.map((token, index) => (
+                        <span key={index} {...getTokenProps(token.type, styles)}>
+                            {token.text}
+                        </span>
+                    ))}
+                </code>
+            </pre>
+        </div>
+    )
+}
+
+const renderInline = (nodes: MarkdownInline[], styles: TerminalStyle): React.ReactNode =>
+    nodes.map((node, index) => {
+        switch (node.type) {
+            case "text":
+                return node.text
+            case "code":
+                return (
+                    <code key={index} className={cn("rounded px-1", styles.inputBackground, styles.inputText)}>
+                        {node.text}
+                    </code>
+                )
+            case "strong":
+                return <strong key={index}>{renderInline(node.children, styles)}</strong>
+            case "em":
+                return <em key={index}>{renderInline(node.children, styles)}</em>
+            case "del":
+                return <del key={index}>{renderInline(node.children, styles)}</del>
+            case "link":
+                return (
+                    <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">
+                        {renderInline(node.children, styles)}
+                    </a>
+                )
+            case "break":
+                return <br key={index} />
+        }
+    })
+
+const HEADING_CLASSES = ["text-base font-bold", "font-bold", "font-semibold", "font-semibold", "font-semibold", "font-semibold"]
+
+const renderBlocks = (blocks: MarkdownBlock[], styles: TerminalStyle, trailing?: React.ReactNode): React.ReactNode => {
+    const last = blocks[blocks.length - 1]
+    // Text blocks take the trailing content inline; after anything else it goes on its own line
+    const takesTrailing = last?.type === "paragraph" || last?.type === "heading"
+
+    return (
+        <>
+            {blocks.map((block, index) => {
+                const tail = takesTrailing && index === blocks.length - 1 ? trailing : null
+                switch (block.type) {
+                    case "paragraph":
+                        return (
+                            <p key={index} className="whitespace-pre-wrap">
+                                {renderInline(block.children, styles)}
+                                {tail}
+                            </p>
+                        )
+                    case "heading": {
+                        const Heading = `h${block.level}` as "h1"
+                        return (
+                            <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>
+                                {renderInline(block.children, styles)}
+                                {tail}
+                            </Heading>
+                        )
+                    }
+                    case "code":
+                        return <CodeBlock key={index} block={block} styles={styles} />
+                    case "list": {
+                        const List = block.ordered ? "ol" : "ul"
+                        return (
+                            <List key={index} start={block.ordered ? block.start : undefined} className={cn("pl-5 space-y-1", block.ordered ? "list-decimal" : "list-disc")}>
+                                {block.items.map((item, itemIndex) => (
+                                    <li key={itemIndex} className="space-y-1">
+                                        {renderBlocks(item, styles)}
+                                    </li>
+                                ))}
+                            </List>
+                        )
+                    }
+                    case "quote":
+                        return (
+                            <blockquote key={index} className={cn("border-l-2 pl-3 space-y-2 opacity-90", styles.messageBorder)}>
+                                {renderBlocks(block.children, styles)}
+                            </blockquote>
+                        )
+                    case "table":
+                        return (
+                            <div key={index} className="overflow-x-auto">
+                                <table className="border-collapse text-xs">
+                                    <thead>
+                                        <tr>
+                                            {block.header.map((cell, column) => (
+                                                <th key={column} className={cn("border px-2 py-1 font-semibold", styles.border)} style={{ textAlign: block.align[column] ?? "left" }}>
+                                                    {renderInline(cell, styles)}
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {block.rows.map((row, rowIndex) => (
+                                            <tr key={rowIndex}>
+                                                {row.map((cell, column) => (
+                                                    <td key={column} className={cn("border px-2 py-1", styles.border)} style={{ textAlign: block.align[column] ?? undefined }}>
+                                                        {renderInline(cell, styles)}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )
+                    case "rule":
+                        return <hr key={index} className={cn("border-t", styles.border)} />
+                }
+            })}
+            {!takesTrailing && trailing}
+        </>
+    )
+}
+
+// Earlier chunks of a streaming reply keep their props, so they are neither parsed nor rendered again
+const MarkdownChunk = memo(function MarkdownChunk({ source, styles, trailing }: { source: string; styles: TerminalStyle; trailing?: React.ReactNode }) {
+    const blocks = useMemo(() => parseMarkdown(source), [source])
+    return renderBlocks(blocks, styles, trailing)
+})
+
+// A model reply rendered as Markdown in the window's palette
+export default function MarkdownMessage({ text, styles, trailing }: MarkdownMessageProps) {
+    const chunks = useMemo(() => splitMarkdown(text), [text])
+    if (chunks.length === 0) return <p>{trailing}</p>
+
+    return (
+        <div className="space-y-2 break-words">
+            {chunks.map((chunk, index) => (
+                <MarkdownChunk key={index} source={chunk} styles={styles} trailing={index === chunks.length - 1 ? trailing : undefined} />
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import TerminalInput from "@/components/terminal-input"
+import { cn } from "@/lib/utils"
+
+interface MessageEditorProps {
+    text: string
+    // The window's input history, so the editor recalls lines like the main input
+    history: string[]
+    onSubmit: (text: string) => void
+    onCancel: () => void
+    // Theme classes for the text box and its prompt, and for the send button
+    className?: string
+    promptClassName?: string
+    buttonClassName?: string
+}
+
+// Edits a sent user message in place: Enter resends it, Escape leaves it as it was
+export default function MessageEditor({ text, history, onSubmit, onCancel, className, promptClassName, buttonClassName }: MessageEditorProps) {
+    const [value, setValue] = useState(text)
+
+    const submit = () => {
+        if (value.trim()) onSubmit(value)
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === "Escape") {
+            e.preventDefault()
+            onCancel()
+        }
+    }
+
+    return (
+        <div className="space-y-2">
+            <TerminalInput autoFocus value={value} onChange={setValue} onSubmit={submit} onKeyDown={handleKeyDown} history={history} className={className} promptClassName={promptClassName} />
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onCancel}>
+                    Cancel
+                </Button>
+                <Button size="sm" className={cn("h-7 px-2 text-xs", buttonClassName)} onClick={submit} disabled={!value.trim()}>
+                    Send
+                </Button>
+            </div>
+        </div>
+    )
+}
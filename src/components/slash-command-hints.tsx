@@ -0,0 +1,31 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+import { matchSlashCommands } from "@/lib/slash-commands"
+
+interface SlashCommandHintsProps {
+    input: string
+    className?: string
+}
+
+// Most commands listed while a command name is being typed
+const MAX_HINTS = 5
+
+// Commands matching the input, shown above a terminal's input while it starts with "/"
+export default function SlashCommandHints({ input, className }: SlashCommandHintsProps) {
+    const commands = matchSlashCommands(input)
+    if (commands.length === 0) return null
+
+    return (
+        <div className={cn("mb-2 space-y-0.5 text-xs font-mono", className)}>
+            {commands.slice(0, MAX_HINTS).map((command) => (
+                <div key={command.name} className="truncate">
+                    <span className="font-semibold">/{command.name}</span>
+                    {command.args && <span className="opacity-70"> {command.args}</span>}
+                    <span className="opacity-70"> - {command.description}</span>
+                </div>
+            ))}
+            {commands.length > MAX_HINTS && <div className="opacity-70">Tab to complete, /help for all commands</div>}
+        </div>
+    )
+}
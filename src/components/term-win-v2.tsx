@@ -2,10 +2,20 @@
 
 import React, { useState, useRef, useEffect, forwardRef } from "react";
 import { motion, useMotionValue, useDragControls } from "framer-motion";
-import { X, Minimize, Maximize, ChevronDown, ChevronUp, Send, Download } from "lucide-react";
+import { X, Minimize, Maximize, ChevronDown, ChevronUp, Send, Square, Pencil, RotateCcw, GitBranch } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { getMessageText } from "@/lib/messages";
+import { useTerminalConversation } from "@/hooks/use-terminal-conversation";
+import ExportMenu from "@/components/export-menu";
+import TerminalBanner from "@/components/terminal-banner";
+import SlashCommandHints from "@/components/slash-command-hints";
+import TerminalInput from "@/components/terminal-input";
+import MarkdownMessage from "@/components/markdown-message";
+import MessageEditor from "@/components/message-editor";
+import BranchSwitcher from "@/components/branch-switcher";
+import ConversationMinimap from "@/components/conversation-minimap";
+import ContextMeter from "@/components/context-meter";
 import type { TermWinV2Props, TerminalMessage } from "../types/terminal-types";
 
 const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
@@ -18,25 +28,33 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
             zIndex,
             initialMessage,
             savedMessages,
+            savedLeafId,
             onClose,
             onFullscreenChange,
             onFocus,
             onSaveState,
             isActive,
+            themes = [],
+            onThemeChange,
+            inputHistory = [],
+            onInputEntered,
         },
         ref,
     ) => {
+        const styles = theme.styles;
+
         // --- State Initialization ---
         const [isFullscreen, setIsFullscreen] = useState(false);
         const [isMinimized, setIsMinimized] = useState(false);
-        const [messages, setMessages] = useState<TerminalMessage[]>(
-            savedMessages && savedMessages.length > 0
-                ? savedMessages
-                : initialMessage
-                    ? [{ id: `${id}-initial`, content: initialMessage, sender: "system", timestamp: new Date() }]
-                    : []
-        );
-        const [inputValue, setInputValue] = useState("");
+        const {
+            tree, messages, childrenMap, activeTheme, contextUsage, inputValue, setInputValue, streamingMessageId,
+            editingMessageId, setEditingMessageId, regenerableReplyId, hasBranches, sendMessage, handleKeyDown,
+            stopReply, regenerate, resendEdited, showBranch, getSenderName, exportChat,
+        } = useTerminalConversation({
+            id, theme, savedMessages, savedLeafId, greeting: initialMessage, themes, onThemeChange, onInputEntered,
+            onSave: (tree) => onSaveState?.({ messages: tree.messages, leafId: tree.leafId, scrollPosition: messagesContainerRef.current?.scrollTop ?? savedScrollPos }),
+        });
+        const [isMinimapOpen, setIsMinimapOpen] = useState(false);
         const [savedScrollPos, setSavedScrollPos] = useState(savedScrollPosition || 0);
         const [prevState, setPrevState] = useState({
             x: initialPosition.x,
@@ -60,15 +78,6 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
         const dragControls = useDragControls();
 
         // --- Effects ---
-        useEffect(() => {
-            const saveCurrentState = () => {
-                if (messagesContainerRef.current && onSaveState) {
-                    onSaveState({ messages, scrollPosition: messagesContainerRef.current.scrollTop });
-                }
-            };
-            return saveCurrentState;
-        }, [messages, onSaveState]);
-
         useEffect(() => {
             if (isFullscreen) {
                 setPrevState({ x: x.get(), y: y.get() });
@@ -93,7 +102,7 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
                 const container = messagesContainerRef.current;
                 const isScrolledToBottom = container && (container.scrollHeight - container.scrollTop <= container.clientHeight + 50);
                 const lastMessage = messages[messages.length - 1];
-                if (lastMessage?.sender === 'system' || isScrolledToBottom) {
+                if (lastMessage?.role !== 'user' || isScrolledToBottom) {
                     messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
                 }
             }
@@ -110,7 +119,7 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
         // --- Handlers ---
         const handleClose = () => {
             if (messagesContainerRef.current && onSaveState) {
-                onSaveState({ messages, scrollPosition: messagesContainerRef.current.scrollTop });
+                onSaveState({ messages: tree.messages, leafId: tree.leafId, scrollPosition: messagesContainerRef.current.scrollTop });
             }
             onClose();
         };
@@ -152,50 +161,15 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
             }
         };
 
-        const handleSendMessage = () => {
-            if (!inputValue.trim()) return;
-            const newMessage: TerminalMessage = { id: Date.now().toString(), content: inputValue, sender: "user", timestamp: new Date() };
-            setMessages([...messages, newMessage]);
-            const currentInput = inputValue;
-            setInputValue("");
-            setTimeout(() => {
-                let responseContent = `Echo: ${currentInput}`;
-                if (theme.id === "npc") {
-                    const npcResponses = ["I've been in this village for many years...", "... quest for you."];
-                    responseContent = npcResponses[Math.floor(Math.random() * npcResponses.length)]
-                } else if (theme.id === "void") {
-                    const voidResponses = ["The void whispers secrets...", "...infinite darkness."];
-                    responseContent = voidResponses[Math.floor(Math.random() * voidResponses.length)]
-                }
-                const responseMessage: TerminalMessage = { id: (Date.now() + 1).toString(), content: responseContent, sender: "system", timestamp: new Date() };
-                setMessages((prev) => [...prev, responseMessage]);
-            }, 1000);
-        };
-        const handleKeyDown = (e: React.KeyboardEvent) => {
-            if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                handleSendMessage();
-            }
-        };
+        // Shown after a reply: the cursor while it streams, a marker once it has been stopped
+        const renderReplyTail = (message: TerminalMessage) =>
+            message.id === streamingMessageId ? <span className="animate-pulse">▌</span>
+                : message.metadata?.stopReason === "cancelled" ? <span className={`text-xs ${styles.timestampText}`}> [stopped]</span>
+                    : null;
+        const inputClassName = `${styles.inputBackground} ${styles.inputBorder} focus-visible:ring-[${styles.dotColor}] ${styles.inputText} ${styles.inputPlaceholder}`;
+        const buttonClassName = `${styles.buttonBackground} ${styles.buttonHover} ${styles.buttonText}`;
+
         const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-        const exportChat = () => {
-            const chatData = { id, theme: theme.id, timestamp: new Date().toISOString(), messages: messages.map(msg => ({ ...msg, timestamp: msg.timestamp.toISOString() })) };
-            const jsonString = JSON.stringify(chatData, null, 2);
-            const blob = new Blob([jsonString], { type: "application/json" });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement("a");
-            a.href = url;
-            a.download = `${theme.name.toLowerCase().replace(/\s+/g, "-")}-chat-${new Date().toISOString().slice(0, 10)}.json`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-        };
-        const getAsciiArt = () => {
-            if (theme.id === "npc") return `...NPC ASCII...`;
-            if (theme.id === "void") return `...VOID ASCII...`;
-            return `...DEFAULT ASCII...`;
-        };
 
         // --- Drag Handlers ---
         const onDragStartHandler = () => { onFocus(); };
@@ -208,8 +182,8 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
                     ref={ref}
                     className={cn(
                         "fixed font-mono text-sm shadow-lg overflow-hidden pointer-events-auto",
-                        theme.background,
-                        `border-2 ${theme.border}`,
+                        styles.background,
+                        `border-2 ${styles.border}`,
                         "backdrop-blur-sm",
                         isFullscreen ? "inset-0 rounded-none" : "rounded-md",
                         isTransitioning && "opacity-0",
@@ -236,46 +210,69 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
                     <div
                         onPointerDown={startDrag}
                         className={cn(
-                            `chat-header flex items-center justify-between px-3 py-2 ${theme.headerBackground} border-b ${theme.headerBorder}`,
+                            `chat-header flex items-center justify-between px-3 py-2 ${styles.headerBackground} border-b ${styles.headerBorder}`,
                             !isFullscreen && !isMinimized && "cursor-move"
                         )}
                     >
                         <div className="flex items-center space-x-2">
-                            <div className={`h-3 w-3 rounded-full ${theme.dotColor}`}></div>
-                            <span className={`${theme.headerText} font-semibold tracking-wide`}>{theme.name}</span>
+                            <div className={`h-3 w-3 rounded-full ${styles.dotColor}`}></div>
+                            <span className={`${styles.headerText} font-semibold tracking-wide`}>{theme.name}</span>
+                            <ContextMeter usage={contextUsage} policy={activeTheme.llm.contextPolicy} barClassName={styles.dotColor} className={styles.headerText} />
                         </div>
                         <div className="chat-controls flex items-center space-x-1">
-                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${theme.headerText} hover:${theme.text} hover:${theme.buttonHover}`} onClick={exportChat} title="Export chat as JSON"> <Download size={14} /> </Button>
-                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${theme.headerText} hover:${theme.text} hover:${theme.buttonHover}`} onClick={toggleMinimize} disabled={isFullscreen || isTransitioning}> {isMinimized ? <ChevronUp size={14} /> : <ChevronDown size={14} />} </Button>
-                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${theme.headerText} hover:${theme.text} hover:${theme.buttonHover}`} onClick={toggleFullscreen} disabled={isTransitioning}> {isFullscreen ? <Minimize size={14} /> : <Maximize size={14} />} </Button>
-                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${theme.headerText} hover:${theme.text} hover:${theme.buttonHover}`} onClick={handleClose}> <X size={14} /> </Button>
+                            <Button variant="ghost" size="icon" className={cn(`h-6 w-6 ${styles.headerText} hover:${styles.text} hover:${styles.buttonHover}`, isMinimapOpen && styles.buttonHover)} onClick={() => setIsMinimapOpen((open) => !open)} title="Conversation tree"> <GitBranch size={14} /> </Button>
+                            <ExportMenu onExport={exportChat} hasBranches={hasBranches} buttonClassName={`${styles.headerText} hover:${styles.text} hover:${styles.buttonHover}`} menuClassName={`${styles.headerBackground} ${styles.headerBorder} ${styles.headerText}`} />
+                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${styles.headerText} hover:${styles.text} hover:${styles.buttonHover}`} onClick={toggleMinimize} disabled={isFullscreen || isTransitioning}> {isMinimized ? <ChevronUp size={14} /> : <ChevronDown size={14} />} </Button>
+                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${styles.headerText} hover:${styles.text} hover:${styles.buttonHover}`} onClick={toggleFullscreen} disabled={isTransitioning}> {isFullscreen ? <Minimize size={14} /> : <Maximize size={14} />} </Button>
+                            <Button variant="ghost" size="icon" className={`h-6 w-6 ${styles.headerText} hover:${styles.text} hover:${styles.buttonHover}`} onClick={handleClose}> <X size={14} /> </Button>
                         </div>
                     </div>
 
+                    {isMinimapOpen && (!isMinimized || isFullscreen) && (
+                        <ConversationMinimap tree={tree} styles={styles} getSenderName={getSenderName} onSelect={showBranch} onClose={() => setIsMinimapOpen(false)} disabled={!!streamingMessageId} />
+                    )}
+
                     {(!isMinimized || isFullscreen) && (
                         <div className="flex flex-col" style={{ height: "calc(100% - 48px)" }}>
-                            <div ref={messagesContainerRef} className={cn("flex-1 overflow-y-auto p-3", isUnminimizing && !isFullscreen && "invisible")} style={{ height: "calc(100% - 64px)", scrollbarWidth: "thin", scrollbarColor: `${theme.border} transparent` }} >
-                                <div className={`ascii-art text-center ${theme.timestampText} mb-4 leading-tight`}> <pre className="text-xs">{getAsciiArt()}</pre> </div>
+                            <div ref={messagesContainerRef} className={cn("flex-1 overflow-y-auto p-3", isUnminimizing && !isFullscreen && "invisible")} style={{ height: "calc(100% - 64px)", scrollbarWidth: "thin", scrollbarColor: `${styles.border} transparent` }} >
+                                <TerminalBanner art={theme.asciiArt} className={styles.timestampText} />
                                 <div className="grid gap-3">
                                     {messages.map((message) => (
-                                        <div key={message.id} className={cn("px-3 py-2 rounded", message.sender === "system" ? `${theme.messageBackground} ${theme.messageText} border-l-2 ${theme.messageBorder}` : `${theme.userMessageBackground} ${theme.userMessageText} ml-8`)}>
+                                        <div key={message.id} className={cn("px-3 py-2 rounded", message.role !== "user" ? `${styles.messageBackground} ${styles.messageText} border-l-2 ${styles.messageBorder}` : `${styles.userMessageBackground} ${styles.userMessageText} ml-8`)}>
                                             <div className="flex justify-between items-start mb-1">
-                                                <span className="text-xs font-semibold">{message.sender === "system" ? theme.senderName : theme.userSenderName}</span>
-                                                <span className={`text-xs ${theme.timestampText}`}>{formatTime(message.timestamp)}</span>
+                                                <span className="text-xs font-semibold">{getSenderName(message)}</span>
+                                                <div className={`flex items-center gap-2 text-xs ${styles.timestampText}`}>
+                                                    <BranchSwitcher siblings={childrenMap.get(message.parentId ?? null) ?? []} currentId={message.id} onSelect={showBranch} disabled={!!streamingMessageId} />
+                                                    {!streamingMessageId && message.role === "user" && editingMessageId !== message.id && (
+                                                        <button type="button" className="opacity-60 hover:opacity-100" title="Edit and resend" onClick={() => setEditingMessageId(message.id)}> <Pencil size={12} /> </button>
+                                                    )}
+                                                    {!streamingMessageId && message.id === regenerableReplyId && (
+                                                        <button type="button" className="opacity-60 hover:opacity-100" title="Regenerate" onClick={regenerate}> <RotateCcw size={12} /> </button>
+                                                    )}
+                                                    <span>{formatTime(message.timestamp)}</span>
+                                                </div>
                                             </div>
-                                            <p className="whitespace-pre-wrap">{message.content}</p>
+                                            {editingMessageId === message.id ? (
+                                                <MessageEditor text={getMessageText(message)} history={inputHistory} onSubmit={(text) => resendEdited(message.id, text)} onCancel={() => setEditingMessageId(null)} className={inputClassName} promptClassName={styles.timestampText} buttonClassName={buttonClassName} />
+                                            ) : message.role === "assistant" ? (
+                                                <MarkdownMessage text={getMessageText(message)} styles={styles} trailing={renderReplyTail(message)} />
+                                            ) : (
+                                                <p className="whitespace-pre-wrap">{getMessageText(message)}</p>
+                                            )}
                                         </div>
                                     ))}
                                     <div ref={messagesEndRef} />
                                 </div>
                             </div>
-                            <div className={`chat-input p-3 ${theme.headerBackground} border-t ${theme.headerBorder}`}>
-                                <div className="flex items-center space-x-2">
-                                    <div className="flex-1 relative">
-                                        <Input value={inputValue} onChange={(e) => setInputValue(e.target.value)} onKeyDown={handleKeyDown} placeholder="Type a message..." className={`${theme.inputBackground} ${theme.inputBorder} focus-visible:ring-[${theme.dotColor}] ${theme.inputText} ${theme.inputPlaceholder}`} />
-                                        <div className={`absolute left-2 top-0 ${theme.timestampText} text-xs font-mono opacity-70 pointer-events-none`}> {inputValue ? "" : "> "} </div>
-                                    </div>
-                                    <Button onClick={handleSendMessage} className={`${theme.buttonBackground} ${theme.buttonHover} ${theme.buttonText}`}> <Send size={16} /> </Button>
+                            <div className={`chat-input p-3 ${styles.headerBackground} border-t ${styles.headerBorder}`}>
+                                <SlashCommandHints input={inputValue} className={styles.timestampText} />
+                                <div className="flex items-end space-x-2">
+                                    <TerminalInput value={inputValue} onChange={setInputValue} onSubmit={sendMessage} onKeyDown={handleKeyDown} history={inputHistory} placeholder="Type a message..." className={inputClassName} promptClassName={styles.timestampText} />
+                                    {streamingMessageId ? (
+                                        <Button onClick={stopReply} title="Stop (Ctrl+C)" className={buttonClassName}> <Square size={16} /> </Button>
+                                    ) : (
+                                        <Button onClick={sendMessage} className={buttonClassName}> <Send size={16} /> </Button>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -283,7 +280,7 @@ const TermWinV2 = forwardRef<HTMLDivElement, TermWinV2Props>(
 
                     <div
                         className="absolute inset-0 pointer-events-none z-10 opacity-5"
-                        style={{ backgroundImage: `linear-gradient(${theme.gridColor} 1px, transparent 1px), linear-gradient(90deg, ${theme.gridColor} 1px, transparent 1px)`, backgroundSize: "4px 4px" }}
+                        style={{ backgroundImage: `linear-gradient(${styles.gridColor} 1px, transparent 1px), linear-gradient(90deg, ${styles.gridColor} 1px, transparent 1px)`, backgroundSize: "4px 4px" }}
                     ></div>
                 </motion.div>
             </div>
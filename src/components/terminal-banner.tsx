@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { renderBanner, type BannerArt } from "@/lib/banner"
+
+interface TerminalBannerProps {
+    art: BannerArt
+    className?: string
+}
+
+// Length of the hidden probe used to measure one character of the banner font
+const PROBE_TEXT = "0".repeat(10)
+
+// A theme's banner, re-rendered to fit whenever the window is resized
+export default function TerminalBanner({ art, className }: TerminalBannerProps) {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const probeRef = useRef<HTMLSpanElement>(null)
+    const [columns, setColumns] = useState<number | null>(null)
+
+    useEffect(() => {
+        const container = containerRef.current
+        const probe = probeRef.current
+        if (!container || !probe) return
+        const measure = () => {
+            const charWidth = probe.getBoundingClientRect().width / PROBE_TEXT.length
+            if (charWidth > 0) setColumns(Math.floor(container.clientWidth / charWidth))
+        }
+        measure()
+        const observer = new ResizeObserver(measure)
+        observer.observe(container)
+        return () => observer.disconnect()
+    }, [])
+
+    // Nothing is rendered until the width is known, so the banner never flashes at the wrong size
+    const banner = useMemo(() => (columns === null ? null : renderBanner(art, columns)), [art, columns])
+
+    return (
+        <div ref={containerRef} className={cn("ascii-art relative text-center leading-tight", banner && "mb-4", className)}>
+            <span ref={probeRef} aria-hidden className="invisible absolute whitespace-pre font-mono text-xs">
+                {PROBE_TEXT}
+            </span>
+            {banner && <pre className="inline-block text-left font-mono text-xs">{banner}</pre>}
+        </div>
+    )
+}
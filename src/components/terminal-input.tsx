@@ -0,0 +1,162 @@
+"use client"
+
+import type React from "react"
+import { useLayoutEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { editLine, isOnFirstLine, isOnLastLine, LINE_EDIT_KEYS, searchInputHistory, type LineState } from "@/lib/line-editor"
+
+interface TerminalInputProps {
+    value: string
+    onChange: (value: string) => void
+    // Enter submits; Shift+Enter starts a new line
+    onSubmit: () => void
+    // What was typed into this window before, oldest first
+    history: string[]
+    // Runs before the built-in bindings; preventDefault skips them, e.g. for tab completion
+    onKeyDown?: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void
+    placeholder?: string
+    autoFocus?: boolean
+    disabled?: boolean
+    // Theme classes for the text box, and for the "> " prompt and the search line
+    className?: string
+    promptClassName?: string
+}
+
+interface HistorySearch {
+    query: string
+    // Index of the matching history entry, -1 while nothing matches
+    match: number
+    // Input text to bring back if the search is cancelled
+    original: string
+}
+
+// A multiline, auto-growing terminal input with shell-style history and editing keys:
+// Up/Down step through history, Ctrl+R searches it, Ctrl+A/E/U/W edit the current line.
+// Browsers that reserve Ctrl+W for closing the tab never pass it to the page.
+export default function TerminalInput({ value, onChange, onSubmit, history, onKeyDown, placeholder, autoFocus, disabled, className, promptClassName }: TerminalInputProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    // Cursor position to apply once an edit made by a key binding has rendered
+    const pendingCursorRef = useRef<number | null>(null)
+    // Entry shown while stepping through history; null while typing a new line
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+    // The new line being typed, brought back when stepping down past the newest entry
+    const [draft, setDraft] = useState("")
+    const [search, setSearch] = useState<HistorySearch | null>(null)
+
+    // Grow with the text; the max-height class caps it and scrolls beyond that
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current
+        if (!textarea) return
+        textarea.style.height = "auto"
+        textarea.style.height = `${textarea.scrollHeight + textarea.offsetHeight - textarea.clientHeight}px`
+        if (pendingCursorRef.current !== null) {
+            textarea.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current)
+            pendingCursorRef.current = null
+        }
+    }, [value])
+
+    const setLine = (line: LineState) => {
+        if (line.value === value) {
+            textareaRef.current?.setSelectionRange(line.cursor, line.cursor)
+        } else {
+            pendingCursorRef.current = line.cursor
+            onChange(line.value)
+        }
+    }
+
+    const showHistoryEntry = (index: number | null) => {
+        setHistoryIndex(index)
+        const entry = index === null ? draft : history[index]
+        setLine({ value: entry, cursor: entry.length })
+    }
+
+    const closeSearch = (restore: boolean) => {
+        if (restore && search) onChange(search.original)
+        setSearch(null)
+        textareaRef.current?.focus()
+    }
+
+    // Shows the newest entry before `before` that contains the query in the input
+    const findInHistory = (query: string, before?: number) => {
+        const match = searchInputHistory(history, query, before)
+        setSearch((prev) => prev && { ...prev, query, match: match === -1 && before !== undefined ? prev.match : match })
+        if (match !== -1) onChange(history[match])
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        onKeyDown?.(e)
+        if (e.defaultPrevented) return
+
+        const line = { value, cursor: e.currentTarget.selectionStart }
+        if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault()
+            setHistoryIndex(null)
+            setDraft("")
+            onSubmit()
+        } else if (e.key === "ArrowUp" && history.length > 0 && isOnFirstLine(line)) {
+            e.preventDefault()
+            if (historyIndex === null) setDraft(value)
+            showHistoryEntry(Math.max(0, (historyIndex ?? history.length) - 1))
+        } else if (e.key === "ArrowDown" && historyIndex !== null && isOnLastLine(line)) {
+            e.preventDefault()
+            showHistoryEntry(historyIndex + 1 < history.length ? historyIndex + 1 : null)
+        } else if (e.ctrlKey && !e.altKey && !e.metaKey && e.key.toLowerCase() === "r") {
+            e.preventDefault()
+            setSearch({ query: "", match: -1, original: value })
+        } else if (e.ctrlKey && !e.altKey && !e.metaKey && LINE_EDIT_KEYS[e.key.toLowerCase()]) {
+            e.preventDefault()
+            setLine(editLine(line, LINE_EDIT_KEYS[e.key.toLowerCase()]))
+        }
+    }
+
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!search) return
+        if (e.ctrlKey && e.key.toLowerCase() === "r") {
+            e.preventDefault()
+            if (search.match > 0) findInHistory(search.query, search.match)
+        } else if (e.key === "Enter") {
+            e.preventDefault()
+            closeSearch(false)
+        } else if (e.key === "Escape" || (e.ctrlKey && e.key.toLowerCase() === "g")) {
+            e.preventDefault()
+            closeSearch(true)
+        }
+    }
+
+    return (
+        <div className="flex-1">
+            {search && (
+                <div className={cn("mb-1 flex items-center gap-1 text-xs font-mono", promptClassName)}>
+                    <span className="opacity-70">{search.query && search.match === -1 ? "(failed reverse-i-search)" : "(reverse-i-search)"}</span>
+                    <input
+                        autoFocus
+                        value={search.query}
+                        onChange={(e) => findInHistory(e.target.value)}
+                        onKeyDown={handleSearchKeyDown}
+                        onBlur={() => setSearch(null)}
+                        className="flex-1 bg-transparent outline-none"
+                        aria-label="Search input history"
+                    />
+                </div>
+            )}
+            <div className="relative">
+                <textarea
+                    ref={textareaRef}
+                    rows={1}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={placeholder}
+                    autoFocus={autoFocus}
+                    disabled={disabled}
+                    spellCheck={false}
+                    className={cn(
+                        "flex w-full max-h-32 resize-none rounded-md border px-3 py-2 text-base md:text-sm leading-5 ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50",
+                        className,
+                    )}
+                />
+                <div className={cn("absolute left-2 top-0 text-xs font-mono opacity-70 pointer-events-none", promptClassName)}>{value ? "" : "> "}</div>
+            </div>
+        </div>
+    )
+}
@@ -2,36 +2,43 @@
 
 import type React from "react"
 import { useState, useRef, useEffect, forwardRef } from "react"
-import { X, Minimize, Maximize, ChevronDown, ChevronUp, Send, Download } from "lucide-react"
+import { X, Minimize, Maximize, ChevronDown, ChevronUp, Send, Square, Pencil, RotateCcw, GitBranch } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { cn } from "@/lib/utils"
+import ExportMenu from "@/components/export-menu"
+import TerminalBanner from "@/components/terminal-banner"
+import TerminalInput from "@/components/terminal-input"
+import MarkdownMessage from "@/components/markdown-message"
+import MessageEditor from "@/components/message-editor"
+import BranchSwitcher from "@/components/branch-switcher"
+import ConversationMinimap from "@/components/conversation-minimap"
+import ContextMeter from "@/components/context-meter"
+import SlashCommandHints from "@/components/slash-command-hints"
 import { motion, useMotionValue, type PanInfo } from "framer-motion"
 import type { TerminalTheme } from "@/lib/terminal-themes"
+import type { WindowMotion } from "@/components/connection-lines"
+import type { InputHistoryProps, TerminalMessage, ThemeSwitchProps } from "@/types/terminal-types"
+import { getMessageText } from "@/lib/messages"
+import { useTerminalConversation } from "@/hooks/use-terminal-conversation"
 
-// Define Message type locally within this component
-// Allow all senders that might be passed via props
-interface Message {
-    id: string
-    content: string
-    sender: "user" | "system" | "npc" | "void"
-    timestamp: Date
-}
-
-// Define Props using the local Message type
-interface TerminalWindowProps {
+interface TerminalWindowProps extends InputHistoryProps, ThemeSwitchProps {
     id: string
     theme: TerminalTheme
     onClose: () => void
     onFullscreenChange: (isFullscreen: boolean) => void
-    onSaveState: (state: { messages: Message[], scrollPosition: number }) => void; // Uses local Message
+    onSaveState: (state: { messages: TerminalMessage[], leafId: string | null, scrollPosition: number }) => void;
     isActive: boolean
     initialPosition: { x: number; y: number }
-    savedMessages: Message[] // Expects local Message format
+    savedMessages: TerminalMessage[]
+    savedLeafId?: string | null
     savedScrollPosition: number
     zIndex: number
     onFocus: () => void
     initialMessage?: string
+    // Called with the pointer position when a drag ends, e.g. to drop this terminal onto another
+    onDragEnd?: (point: { x: number; y: number }) => void
+    // Receives the window's motion values so connection lines can follow it
+    onMotionReady?: (motion: WindowMotion) => void
 }
 
 const TerminalWindow = forwardRef<HTMLDivElement, TerminalWindowProps>(
@@ -45,19 +52,34 @@ const TerminalWindow = forwardRef<HTMLDivElement, TerminalWindowProps>(
             isActive,
             initialPosition,
             savedMessages,
+            savedLeafId,
             savedScrollPosition,
             zIndex,
             onFocus,
             initialMessage = "Welcome to the terminal. How can I assist you today?",
+            onDragEnd,
+            onMotionReady,
+            themes = [],
+            onThemeChange,
+            inputHistory = [],
+            onInputEntered,
         },
         ref,
     ) => {
+        const styles = theme.styles
+
         // --- Core State ---
         const [isFullscreen, setIsFullscreen] = useState(false)
         const [isMinimized, setIsMinimized] = useState(false)
-        const [inputValue, setInputValue] = useState("")
-        // Initialize state with the received messages (now matching local Message type)
-        const [messages, setMessages] = useState<Message[]>(savedMessages)
+        const {
+            tree, messages, childrenMap, activeTheme, contextUsage, inputValue, setInputValue, streamingMessageId,
+            editingMessageId, setEditingMessageId, regenerableReplyId, hasBranches, sendMessage, handleKeyDown,
+            stopReply, regenerate, resendEdited, showBranch, getSenderName, exportChat,
+        } = useTerminalConversation({
+            id, theme, savedMessages, savedLeafId, themes, onThemeChange, onInputEntered,
+            onSave: (tree) => onSaveState({ messages: tree.messages, leafId: tree.leafId, scrollPosition: messagesContainerRef.current?.scrollTop ?? savedScrollPos }),
+        })
+        const [isMinimapOpen, setIsMinimapOpen] = useState(false)
         // Reinstate missing state variables
         const [savedScrollPos, setSavedScrollPos] = useState(savedScrollPosition || 0)
         const [isUnminimizing, setIsUnminimizing] = useState(false)
@@ -83,69 +105,132 @@ const TerminalWindow = forwardRef<HTMLDivElement, TerminalWindowProps>(
         const messagesContainerRef = useRef<HTMLDivElement>(null)
 
         // --- Effects (Keep relevant ones) ---
-        useEffect(() => { /* unmount save */ return () => { if (messagesContainerRef.current) { onSaveState({ messages, scrollPosition: messagesContainerRef.current.scrollTop }) } else { onSaveState({ messages, scrollPosition: savedScrollPos }) } } }, [messages, onSaveState, savedScrollPos])
+        useEffect(() => { /* share motion values */ onMotionReady?.({ x, y, width, height }) }, [onMotionReady, x, y, width, height])
         useEffect(() => { /* fullscreen save */ if (isFullscreen) { setPrevState({ x: x.get(), y: y.get(), width: width.get(), height: height.get() }) } }, [isFullscreen, x, y, width, height])
         useEffect(() => { /* fullscreen restore */ if (!isFullscreen) { x.set(prevState.x); y.set(prevState.y); width.set(prevState.width); height.set(prevState.height) } }, [isFullscreen, prevState, x, y, width, height])
         useEffect(() => { /* scroll restore */ if (messagesContainerRef.current && savedScrollPosition > 0 && !isMinimized) { messagesContainerRef.current.scrollTop = savedScrollPosition } }, [savedScrollPosition, isMinimized])
-        useEffect(() => { /* scroll to bottom */ if (!isMinimized && !isTransitioning && messagesEndRef.current) { const container = messagesContainerRef.current; const isScrolledToBottom = container && (container.scrollHeight - container.scrollTop <= container.clientHeight + 50); const lastMessage = messages[messages.length - 1]; if (lastMessage?.sender === 'system' || isScrolledToBottom) { messagesEndRef.current.scrollIntoView({ behavior: "smooth" }); } } }, [messages, isMinimized, isTransitioning]);
+        useEffect(() => { /* scroll to bottom */ if (!isMinimized && !isTransitioning && messagesEndRef.current) { const container = messagesContainerRef.current; const isScrolledToBottom = container && (container.scrollHeight - container.scrollTop <= container.clientHeight + 50); const lastMessage = messages[messages.length - 1]; if (lastMessage?.role !== 'user' || isScrolledToBottom) { messagesEndRef.current.scrollIntoView({ behavior: "smooth" }); } } }, [messages, isMinimized, isTransitioning]);
         useEffect(() => { /* unminimize restore scroll */ if (isUnminimizing && !isMinimized && messagesContainerRef.current) { messagesContainerRef.current.scrollTop = savedScrollPos; const timer = setTimeout(() => { setIsUnminimizing(false) }, 50); return () => clearTimeout(timer) } }, [isMinimized, isUnminimizing, savedScrollPos])
 
         // --- Handlers --- 
-        const handleClose = () => { if (messagesContainerRef.current) { onSaveState({ messages, scrollPosition: messagesContainerRef.current.scrollTop }) } else { onSaveState({ messages, scrollPosition: savedScrollPos }) }; onClose() }
+        const handleClose = () => { if (messagesContainerRef.current) { onSaveState({ messages: tree.messages, leafId: tree.leafId, scrollPosition: messagesContainerRef.current.scrollTop }) } else { onSaveState({ messages: tree.messages, leafId: tree.leafId, scrollPosition: savedScrollPos }) }; onClose() }
         const handleResize = (_: any, info: PanInfo) => { if (isFullscreen) return; width.set(Math.max(300, width.get() + info.delta.x)); height.set(Math.max(200, height.get() + info.delta.y)); };
         const toggleFullscreen = () => { /* ... logic ... */ }; // Assume correct
         const toggleMinimize = () => { /* ... logic ... */ }; // Assume correct
 
-        const handleSendMessage = () => {
-            if (!inputValue.trim()) return
-            // Create new message using the local Message type
-            const newMessage: Message = {
-                id: Date.now().toString(),
-                content: inputValue,
-                sender: "user",
-                timestamp: new Date(),
-            }
-            setMessages([...messages, newMessage])
-            const currentInput = inputValue;
-            setInputValue("")
-            setTimeout(() => {
-                let responseContent = `Echo: ${currentInput}`;
-                // Determine sender based on theme - use local type
-                // The key is that the 'sender' value matches the defined local Message type
-                const responseMessage: Message = {
-                    id: (Date.now() + 1).toString(),
-                    content: responseContent,
-                    sender: "system", // Example: response is always 'system'
-                    timestamp: new Date()
-                };
-                setMessages((prev) => [...prev, responseMessage]);
-            }, 1000);
-        }
-        const handleKeyDown = (e: React.KeyboardEvent) => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSendMessage() } }
+        // Shown after a reply: the cursor while it streams, a marker once it has been stopped
+        const renderReplyTail = (message: TerminalMessage) =>
+            message.id === streamingMessageId ? <span className="animate-pulse">▌</span>
+                : message.metadata?.stopReason === "cancelled" ? <span className={`text-xs ${styles.timestampText}`}> [stopped]</span>
+                    : null
+        const inputClassName = `${styles.inputBackground} ${styles.inputBorder} ${styles.inputText} ${styles.inputPlaceholder}`
+        const buttonClassName = `${styles.buttonBackground} ${styles.buttonHover} ${styles.buttonText}`
         const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
-        const exportChat = () => { /* ... */ }
-        const getAsciiArt = () => { /* ... */ };
 
         // --- Return JSX ---
         return (
-            <motion.div ref={ref} /* ... props ... */ >
-                {/* ... Header ... */}
+            <motion.div
+                ref={ref}
+                className="fixed"
+                style={{ x, y, zIndex }}
+                drag={!isFullscreen}
+                dragMomentum={false}
+                dragElastic={0}
+                onMouseDown={onFocus}
+                onDragStart={onFocus}
+                onDragEnd={(_, info) => {
+                    setPrevState((prev) => ({ ...prev, x: x.get(), y: y.get() }))
+                    onDragEnd?.(info.point)
+                }}
+                /* ... props ... */
+            >
+                <div className={`chat-header flex items-center justify-between px-3 py-2 ${styles.headerBackground} border-b ${styles.headerBorder}`}>
+                    <div className="flex items-center space-x-2">
+                        <div className={`h-3 w-3 rounded-full ${styles.dotColor}`}></div>
+                        <span className={`${styles.headerText} font-semibold tracking-wide`}>{theme.name}</span>
+                        <ContextMeter usage={contextUsage} policy={activeTheme.llm.contextPolicy} barClassName={styles.dotColor} className={styles.headerText} />
+                    </div>
+                    <div className="chat-controls flex items-center space-x-1">
+                        <Button variant="ghost" size="icon" className={cn(`h-6 w-6 ${styles.headerText} hover:${styles.buttonHover}`, isMinimapOpen && styles.buttonHover)} onClick={() => setIsMinimapOpen((open) => !open)} title="Conversation tree">
+                            <GitBranch size={14} />
+                        </Button>
+                        <ExportMenu
+                            onExport={exportChat}
+                            hasBranches={hasBranches}
+                            buttonClassName={`${styles.headerText} hover:${styles.buttonHover}`}
+                            menuClassName={`${styles.headerBackground} ${styles.headerBorder} ${styles.headerText}`}
+                        />
+                        <Button variant="ghost" size="icon" className={`h-6 w-6 ${styles.headerText} hover:${styles.buttonHover}`} onClick={handleClose}>
+                            <X size={14} />
+                        </Button>
+                    </div>
+                </div>
+                {isMinimapOpen && (
+                    <ConversationMinimap tree={tree} styles={styles} getSenderName={getSenderName} onSelect={showBranch} onClose={() => setIsMinimapOpen(false)} disabled={!!streamingMessageId} />
+                )}
                 {/* ... Content Area - uses local messages state */}
                 <div ref={messagesContainerRef} /* ... */ >
+                    <TerminalBanner art={theme.asciiArt} className={styles.timestampText} />
                     {messages.map((message) => (
                         <div key={message.id} /* ... */ >
-                            {/* Render based on message.sender from local state */}
-                            <span className="text-xs font-semibold">
-                                {message.sender === "system" ? theme.senderName
-                                    : message.sender === "npc" ? "NPC"
-                                        : message.sender === "void" ? "VOID"
-                                            : theme.userSenderName}
-                            </span>
-                            {/* ... */}
+                            <div className="flex justify-between items-start">
+                                <span className="text-xs font-semibold">{getSenderName(message)}</span>
+                                <div className={`flex items-center gap-2 text-xs ${styles.timestampText}`}>
+                                    <BranchSwitcher siblings={childrenMap.get(message.parentId ?? null) ?? []} currentId={message.id} onSelect={showBranch} disabled={!!streamingMessageId} />
+                                    {!streamingMessageId && message.role === "user" && editingMessageId !== message.id && (
+                                        <button type="button" className="opacity-60 hover:opacity-100" title="Edit and resend" onClick={() => setEditingMessageId(message.id)}>
+                                            <Pencil size={12} />
+                                        </button>
+                                    )}
+                                    {!streamingMessageId && message.id === regenerableReplyId && (
+                                        <button type="button" className="opacity-60 hover:opacity-100" title="Regenerate" onClick={regenerate}>
+                                            <RotateCcw size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {editingMessageId === message.id ? (
+                                <MessageEditor
+                                    text={getMessageText(message)}
+                                    history={inputHistory}
+                                    onSubmit={(text) => resendEdited(message.id, text)}
+                                    onCancel={() => setEditingMessageId(null)}
+                                    className={inputClassName}
+                                    promptClassName={styles.timestampText}
+                                    buttonClassName={buttonClassName}
+                                />
+                            ) : message.role === "assistant" ? (
+                                <MarkdownMessage text={getMessageText(message)} styles={styles} trailing={renderReplyTail(message)} />
+                            ) : (
+                                <p className="whitespace-pre-wrap">{getMessageText(message)}</p>
+                            )}
                         </div>
                     ))}
                 </div>
-                {/* ... Input ... */}
+                <div className={`chat-input p-3 ${styles.headerBackground} border-t ${styles.headerBorder}`}>
+                    <SlashCommandHints input={inputValue} className={styles.timestampText} />
+                    <div className="flex items-end space-x-2">
+                        <TerminalInput
+                            value={inputValue}
+                            onChange={setInputValue}
+                            onSubmit={sendMessage}
+                            onKeyDown={handleKeyDown}
+                            history={inputHistory}
+                            placeholder="Type a message..."
+                            className={inputClassName}
+                            promptClassName={styles.timestampText}
+                        />
+                        {streamingMessageId ? (
+                            <Button onClick={stopReply} title="Stop (Ctrl+C)" className={buttonClassName}>
+                                <Square size={16} />
+                            </Button>
+                        ) : (
+                            <Button onClick={sendMessage} className={buttonClassName}>
+                                <Send size={16} />
+                            </Button>
+                        )}
+                    </div>
+                </div>
                 {/* ... Resize Handles ... */}
             </motion.div>
         )
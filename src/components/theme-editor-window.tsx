@@ -0,0 +1,363 @@
+"use client"
+
+import { useState } from "react"
+import { Download, Send, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import type { TerminalStyle, TerminalTheme } from "@/lib/terminal-themes"
+import type { ContextPolicy } from "@/types/terminal-types"
+import { ALLOWED_MODELS, CONTEXT_POLICIES, getContextWindow, MAX_TOKENS_LIMIT, MIN_CONTEXT_BUDGET, type LLMProvider } from "@/lib/llm-config"
+import { buildThemeCSS } from "@/lib/theme-css"
+import { downloadThemePack } from "@/lib/theme-packs"
+import { validateTheme } from "@/lib/theme-schema"
+import { BANNER_FONTS, DEFAULT_BANNER_FONT, type BannerSpec } from "@/lib/banner"
+import TerminalBanner from "@/components/terminal-banner"
+import MarkdownMessage from "@/components/markdown-message"
+
+interface ThemeEditorWindowProps {
+    // Theme to edit, or the one a new theme starts from
+    theme: TerminalTheme
+    isNew: boolean
+    onSave: (theme: TerminalTheme) => void
+    onDelete?: () => void
+    onClose: () => void
+}
+
+// Every style key with the Tailwind utility its color is written as; gridColor is plain CSS
+const STYLE_FIELDS: { key: keyof TerminalStyle; label: string; prefix: string }[] = [
+    { key: "background", label: "Background", prefix: "bg-" },
+    { key: "border", label: "Border", prefix: "border-" },
+    { key: "gridColor", label: "Grid", prefix: "" },
+    { key: "text", label: "Text", prefix: "text-" },
+    { key: "headerBackground", label: "Header background", prefix: "bg-" },
+    { key: "headerBorder", label: "Header border", prefix: "border-" },
+    { key: "headerText", label: "Header text", prefix: "text-" },
+    { key: "dotColor", label: "Header dot", prefix: "bg-" },
+    { key: "messageBackground", label: "Reply background", prefix: "bg-" },
+    { key: "messageText", label: "Reply text", prefix: "text-" },
+    { key: "messageBorder", label: "Reply accent", prefix: "border-" },
+    { key: "userMessageBackground", label: "User message background", prefix: "bg-" },
+    { key: "userMessageText", label: "User message text", prefix: "text-" },
+    { key: "timestampText", label: "Timestamps", prefix: "text-" },
+    { key: "inputBackground", label: "Input background", prefix: "bg-" },
+    { key: "inputBorder", label: "Input border", prefix: "border-" },
+    { key: "inputText", label: "Input text", prefix: "text-" },
+    { key: "inputPlaceholder", label: "Input placeholder", prefix: "placeholder:text-" },
+    { key: "buttonBackground", label: "Button", prefix: "bg-" },
+    { key: "buttonHover", label: "Button hover", prefix: "hover:bg-" },
+    { key: "buttonText", label: "Button text", prefix: "text-" },
+    { key: "resizeHandleBorder", label: "Resize handle", prefix: "border-" },
+]
+
+const PROVIDERS = Object.keys(ALLOWED_MODELS) as LLMProvider[]
+
+// A copy the form can change without touching the registry's theme
+const toDraft = (theme: TerminalTheme): TerminalTheme => ({ ...theme, styles: { ...theme.styles }, llm: { ...theme.llm } })
+
+const getHex = (value: string) => value.match(/#[0-9a-fA-F]{6}\b/)?.[0]
+
+// Swap the color inside a class, keeping any modifiers such as `opacity-70`
+const setHex = (value: string, hex: string, prefix: string) =>
+    getHex(value) ? value.replace(/#[0-9a-fA-F]{6}\b/, hex) : prefix ? `${prefix}[${hex}]` : hex
+
+// Value of the banner select for raw art; the other options are font ids
+const RAW_ART = "raw"
+
+const fieldClass = "bg-[#f0ede6] border-[#c8c3b8] text-[#3d3b36] h-8 text-xs font-mono"
+const labelClass = "block text-[11px] uppercase tracking-wide text-[#8a857d] mb-1"
+
+export default function ThemeEditorWindow({ theme, isNew, onSave, onDelete, onClose }: ThemeEditorWindowProps) {
+    const [draft, setDraft] = useState(() => toDraft(isNew ? { ...theme, name: `${theme.name}_COPY` } : theme))
+    const styles = draft.styles
+
+    const update = (changes: Partial<TerminalTheme>) => setDraft((prev) => ({ ...prev, ...changes }))
+    const updateStyle = (key: keyof TerminalStyle, value: string) => setDraft((prev) => ({ ...prev, styles: { ...prev.styles, [key]: value } }))
+    const updateLLM = (changes: Partial<TerminalTheme["llm"]>) => setDraft((prev) => ({ ...prev, llm: { ...prev.llm, ...changes } }))
+
+    const changeProvider = (provider: LLMProvider) =>
+        updateLLM({ provider, model: ALLOWED_MODELS[provider].includes(draft.llm.model) ? draft.llm.model : ALLOWED_MODELS[provider][0] })
+
+    // Switching fonts keeps the banner text; a new banner starts with the theme name and raw art starts empty
+    const changeBannerFont = (value: string) => {
+        const font = BANNER_FONTS.find((f) => f === value)
+        if (!font) update({ asciiArt: "" })
+        else update({ asciiArt: { text: typeof draft.asciiArt === "string" ? draft.name : draft.asciiArt.text, font } })
+    }
+
+    // The same checks imported themes go through, so what saves here also round-trips through a theme pack
+    const validation = validateTheme(draft)
+
+    const textField = (label: string, key: "name" | "description" | "greeting" | "senderName" | "userSenderName") => (
+        <label className="block">
+            <span className={labelClass}>{label}</span>
+            <Input value={draft[key]} onChange={(e) => update({ [key]: e.target.value })} className={fieldClass} />
+        </label>
+    )
+
+    return (
+        <div className="fixed inset-0 flex items-center justify-center z-[1000] bg-black/30 backdrop-blur-sm">
+            {/* Colors picked here have no Tailwind rules until the theme is saved, so the preview brings its own */}
+            <style>{buildThemeCSS([draft])}</style>
+
+            <div className="bg-[#f0ede6] border border-[#c8c3b8] rounded-lg shadow-lg w-full max-w-5xl max-h-[90vh] flex flex-col font-mono text-[#5a5751]">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-[#c8c3b8]">
+                    <h3 className="text-lg font-semibold">{isNew ? "New Theme" : `Edit ${theme.name}`}</h3>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-[#5a5751] hover:text-[#3d3b36] hover:bg-[#d9d4c9]" onClick={onClose}>
+                        <X size={16} />
+                    </Button>
+                </div>
+
+                <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 gap-6 p-6 overflow-y-auto md:overflow-hidden">
+                    {/* Form */}
+                    <div className="space-y-5 md:overflow-y-auto md:pr-2">
+                        <section className="grid grid-cols-2 gap-3">
+                            {textField("Name", "name")}
+                            {textField("Description", "description")}
+                            {textField("Sender name", "senderName")}
+                            {textField("User sender name", "userSenderName")}
+                            <div className="col-span-2">{textField("Greeting", "greeting")}</div>
+                        </section>
+
+                        <section className="space-y-3">
+                            <label className="block">
+                                <span className={labelClass}>System prompt</span>
+                                <textarea
+                                    value={draft.systemPrompt}
+                                    onChange={(e) => update({ systemPrompt: e.target.value })}
+                                    rows={4}
+                                    className="w-full rounded-md border border-[#c8c3b8] bg-[#f0ede6] text-[#3d3b36] p-2 text-xs"
+                                />
+                            </label>
+                            <div className="grid grid-cols-[8rem_1fr] gap-3">
+                                <label className="block">
+                                    <span className={labelClass}>Banner</span>
+                                    <select
+                                        value={typeof draft.asciiArt === "string" ? RAW_ART : (draft.asciiArt.font ?? DEFAULT_BANNER_FONT)}
+                                        onChange={(e) => changeBannerFont(e.target.value)}
+                                        className={cn("w-full rounded-md border px-2", fieldClass)}
+                                    >
+                                        <option value={RAW_ART}>raw art</option>
+                                        {BANNER_FONTS.map((font) => (
+                                            <option key={font} value={font}>
+                                                {font} font
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                                {typeof draft.asciiArt === "string" ? (
+                                    <label className="block">
+                                        <span className={labelClass}>ASCII art</span>
+                                        <textarea
+                                            value={draft.asciiArt}
+                                            onChange={(e) => update({ asciiArt: e.target.value })}
+                                            rows={4}
+                                            spellCheck={false}
+                                            className="w-full rounded-md border border-[#c8c3b8] bg-[#f0ede6] text-[#3d3b36] p-2 text-xs whitespace-pre"
+                                        />
+                                    </label>
+                                ) : (
+                                    <label className="block">
+                                        <span className={labelClass}>Banner text</span>
+                                        <Input
+                                            value={draft.asciiArt.text}
+                                            onChange={(e) => update({ asciiArt: { ...(draft.asciiArt as BannerSpec), text: e.target.value } })}
+                                            className={fieldClass}
+                                        />
+                                    </label>
+                                )}
+                            </div>
+                        </section>
+
+                        <section className="grid grid-cols-2 gap-3">
+                            <label className="block">
+                                <span className={labelClass}>Provider</span>
+                                <select
+                                    value={draft.llm.provider}
+                                    onChange={(e) => changeProvider(e.target.value as LLMProvider)}
+                                    className={cn("w-full rounded-md border px-2", fieldClass)}
+                                >
+                                    {PROVIDERS.map((provider) => (
+                                        <option key={provider} value={provider}>
+                                            {provider}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Model</span>
+                                <select
+                                    value={draft.llm.model}
+                                    onChange={(e) => updateLLM({ model: e.target.value })}
+                                    className={cn("w-full rounded-md border px-2", fieldClass)}
+                                >
+                                    {ALLOWED_MODELS[draft.llm.provider].map((model) => (
+                                        <option key={model} value={model}>
+                                            {model}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Temperature</span>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={2}
+                                    step={0.1}
+                                    value={draft.llm.temperature}
+                                    onChange={(e) => updateLLM({ temperature: Number(e.target.value) })}
+                                    className={fieldClass}
+                                />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Max tokens</span>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_TOKENS_LIMIT}
+                                    value={draft.llm.maxTokens}
+                                    onChange={(e) => updateLLM({ maxTokens: Number(e.target.value) })}
+                                    className={fieldClass}
+                                />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Long conversations</span>
+                                <select
+                                    value={draft.llm.contextPolicy ?? "trim"}
+                                    onChange={(e) => updateLLM({ contextPolicy: e.target.value as ContextPolicy })}
+                                    className={cn("w-full rounded-md border px-2", fieldClass)}
+                                >
+                                    {CONTEXT_POLICIES.map((policy) => (
+                                        <option key={policy} value={policy}>
+                                            {policy === "trim" ? "Trim oldest turns" : "Summarize oldest turns"}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            {/* Empty uses the model's whole window */}
+                            <label className="block">
+                                <span className={labelClass}>Context budget</span>
+                                <Input
+                                    type="number"
+                                    min={MIN_CONTEXT_BUDGET}
+                                    step={1024}
+                                    placeholder={`${getContextWindow(draft.llm).toLocaleString()} window`}
+                                    value={draft.llm.contextBudget ?? ""}
+                                    onChange={(e) => updateLLM({ contextBudget: e.target.value ? Number(e.target.value) : undefined })}
+                                    className={fieldClass}
+                                />
+                            </label>
+                        </section>
+
+                        {/* Each color is a picker plus the raw class, for modifiers like `opacity-70` */}
+                        <section className="grid grid-cols-2 gap-x-3 gap-y-2">
+                            {STYLE_FIELDS.map(({ key, label, prefix }) => (
+                                <label key={key} className="block">
+                                    <span className={labelClass}>{label}</span>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="color"
+                                            value={getHex(styles[key]) ?? "#000000"}
+                                            onChange={(e) => updateStyle(key, setHex(styles[key], e.target.value, prefix))}
+                                            className="h-8 w-8 shrink-0 cursor-pointer rounded border border-[#c8c3b8] bg-transparent"
+                                        />
+                                        <Input value={styles[key]} onChange={(e) => updateStyle(key, e.target.value)} className={fieldClass} />
+                                    </div>
+                                </label>
+                            ))}
+                        </section>
+                    </div>
+
+                    {/* Live preview, drawn the way the terminal windows draw a theme */}
+                    <div className="md:overflow-y-auto">
+                        <div className={cn("relative rounded-md border-2 overflow-hidden text-sm shadow-lg", styles.background, styles.border)}>
+                            <div className={`flex items-center space-x-2 px-3 py-2 ${styles.headerBackground} border-b ${styles.headerBorder}`}>
+                                <div className={`h-3 w-3 rounded-full ${styles.dotColor}`}></div>
+                                <span className={`${styles.headerText} font-semibold tracking-wide`}>{draft.name || "UNTITLED"}</span>
+                            </div>
+                            <div className="p-3">
+                                <TerminalBanner art={draft.asciiArt} className={styles.timestampText} />
+                                <div className="grid gap-3">
+                                    {[
+                                        { isUser: false, text: draft.greeting || "…" },
+                                        { isUser: true, text: "What can you do?" },
+                                        { isUser: false, text: `I answer as **${draft.senderName || "…"}**, with \`${draft.llm.model}\`:\n\n\`\`\`ts\n// Replies render as Markdown\nconst answer = { text: "forty-two", value: 42 }\n\`\`\`` },
+                                    ].map(({ isUser, text }, index) => (
+                                        <div
+                                            key={index}
+                                            className={cn(
+                                                "px-3 py-2 rounded",
+                                                isUser
+                                                    ? `${styles.userMessageBackground} ${styles.userMessageText} ml-8`
+                                                    : `${styles.messageBackground} ${styles.messageText} border-l-2 ${styles.messageBorder}`,
+                                            )}
+                                        >
+                                            <div className="flex justify-between items-start mb-1">
+                                                <span className="text-xs font-semibold">{isUser ? draft.userSenderName : draft.senderName}</span>
+                                                <span className={`text-xs ${styles.timestampText}`}>12:0{index}</span>
+                                            </div>
+                                            {isUser ? <p className="whitespace-pre-wrap">{text}</p> : <MarkdownMessage text={text} styles={styles} />}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className={`p-3 ${styles.headerBackground} border-t ${styles.headerBorder}`}>
+                                <div className="flex items-center space-x-2">
+                                    <Input
+                                        readOnly
+                                        placeholder="Type a message..."
+                                        className={`${styles.inputBackground} ${styles.inputBorder} ${styles.inputText} ${styles.inputPlaceholder}`}
+                                    />
+                                    <Button className={`${styles.buttonBackground} ${styles.buttonHover} ${styles.buttonText}`}>
+                                        <Send size={16} />
+                                    </Button>
+                                </div>
+                            </div>
+                            <div
+                                className="absolute inset-0 pointer-events-none opacity-5"
+                                style={{
+                                    backgroundImage: `linear-gradient(${styles.gridColor} 1px, transparent 1px), linear-gradient(90deg, ${styles.gridColor} 1px, transparent 1px)`,
+                                    backgroundSize: "4px 4px",
+                                }}
+                            ></div>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center px-6 py-4 border-t border-[#c8c3b8]">
+                    <div className="flex space-x-3">
+                        {onDelete && (
+                            <Button variant="outline" className="border-[#c8c3b8] text-[#5a5751] hover:bg-[#d9d4c9]" onClick={onDelete}>
+                                <Trash2 size={14} className="mr-2" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button
+                            variant="outline"
+                            className="border-[#c8c3b8] text-[#5a5751] hover:bg-[#d9d4c9]"
+                            disabled={!validation.theme}
+                            onClick={() => validation.theme && downloadThemePack([validation.theme], draft.name)}
+                        >
+                            <Download size={14} className="mr-2" />
+                            Export
+                        </Button>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                        {validation.error && <p className="text-xs text-[#a34a3a] max-w-xs">{validation.error}</p>}
+                        <Button variant="outline" className="border-[#c8c3b8] text-[#5a5751] hover:bg-[#d9d4c9]" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button
+                            className="bg-[#d9b38c] hover:bg-[#c9a37c] text-[#3d3b36]"
+                            disabled={!validation.theme}
+                            onClick={() => validation.theme && onSave(validation.theme)}
+                        >
+                            Save Theme
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,237 @@
+// Conversation state shared by the terminal windows: the message tree, streaming replies from /api/chat,
+// stopping, regenerating and editing them, and the input with its slash commands.
+// The windows only lay it out.
+
+import type React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { TerminalTheme } from "@/lib/terminal-themes"
+import type { MessageTree, TerminalLLM, TerminalMessage, ThemeSwitchProps } from "@/types/terminal-types"
+import { decodeChatStream } from "@/lib/chat-stream"
+import { downloadChat, type ExportFormat } from "@/lib/chat-export"
+import { appendMessageText, createMessage, getRegenerableReplyId, SYSTEM_AGENT_ID, updateMessageMetadata, USER_AGENT_ID } from "@/lib/messages"
+import { appendMessage, createMessageTree, forkMessage, getBranch, getChildrenMap, rewindBranch, selectBranch, updateMessage } from "@/lib/message-tree"
+import { createSummaryMessage, getContextUsage } from "@/lib/context-budget"
+import { completeSlashCommand, isSlashCommand, runSlashCommand, type SlashCommandContext } from "@/lib/slash-commands"
+
+interface TerminalConversationOptions extends ThemeSwitchProps {
+    // Window id, for exports
+    id: string
+    theme: TerminalTheme
+    savedMessages?: TerminalMessage[]
+    savedLeafId?: string | null
+    // Opening reply of a conversation with no saved messages
+    greeting?: string
+    // Records a line typed into the window, for history recall
+    onInputEntered?: (text: string) => void
+    // Persists the tree: once a reply has finished streaming, after any other change, and on unmount
+    onSave?: (tree: MessageTree) => void
+}
+
+export function useTerminalConversation({
+    id,
+    theme,
+    savedMessages = [],
+    savedLeafId,
+    greeting,
+    themes = [],
+    onThemeChange,
+    onInputEntered,
+    onSave,
+}: TerminalConversationOptions) {
+    // Every branch of the conversation; edits and regenerated replies fork it
+    const [tree, setTree] = useState<MessageTree>(() =>
+        createMessageTree(
+            savedMessages.length > 0
+                ? savedMessages
+                : greeting
+                    ? [createMessage({ id: `${id}-initial`, role: "assistant", agentId: theme.id, text: greeting })]
+                    : [],
+            savedLeafId,
+        ),
+    )
+    // The branch on screen
+    const messages = useMemo(() => getBranch(tree), [tree])
+    const childrenMap = useMemo(() => getChildrenMap(tree), [tree])
+    const [inputValue, setInputValue] = useState("")
+    // Reply currently receiving streamed tokens
+    const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+    // User message being edited in place; resending it forks the conversation there
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+    // Set with /model, /temp and /system; they last until the theme changes
+    const [llmOverride, setLLMOverride] = useState<TerminalLLM | null>(null)
+    const [systemPromptOverride, setSystemPromptOverride] = useState<string | null>(null)
+    // Aborts the request of the reply that is streaming
+    const abortControllerRef = useRef<AbortController | null>(null)
+
+    // Saving on every tree change would save once per streamed token
+    const latestRef = useRef({ tree, streamingMessageId, onSave })
+    latestRef.current = { tree, streamingMessageId, onSave }
+    const savedTreeRef = useRef(tree)
+    useEffect(() => {
+        if (streamingMessageId || tree === savedTreeRef.current) return
+        savedTreeRef.current = tree
+        latestRef.current.onSave?.(tree)
+    }, [tree, streamingMessageId])
+
+    // An unmounted window cannot show the reply, and it is not worth paying for. The reply is saved
+    // as stopped here, since the aborted request settles after the window's state is gone.
+    useEffect(() => () => {
+        const { tree, streamingMessageId, onSave } = latestRef.current
+        abortControllerRef.current?.abort()
+        onSave?.(streamingMessageId ? updateMessage(tree, streamingMessageId, (msg) => updateMessageMetadata(msg, { stopReason: "cancelled" })) : tree)
+    }, [])
+
+    const activeTheme = { ...theme, llm: llmOverride ?? theme.llm, systemPrompt: systemPromptOverride ?? theme.systemPrompt }
+    const contextUsage = useMemo(
+        () => getContextUsage(messages, activeTheme.llm, activeTheme.systemPrompt),
+        [messages, activeTheme.llm, activeTheme.systemPrompt],
+    )
+
+    // Streams the model's reply to the branch on screen in `base` into a new message at its end
+    const streamReply = async (base: MessageTree) => {
+        const history = getBranch(base)
+        // Empty placeholder that the streamed reply is written into
+        const response = createMessage({
+            role: "assistant",
+            agentId: theme.id,
+            metadata: { provider: activeTheme.llm.provider, model: activeTheme.llm.model },
+        })
+        const responseId = response.id
+        setTree(appendMessage(base, response))
+        setStreamingMessageId(responseId)
+
+        const updateResponse = (update: (message: TerminalMessage) => TerminalMessage) => {
+            setTree((prev) => updateMessage(prev, responseId, update))
+        }
+        const appendToResponse = (text: string) => updateResponse((msg) => appendMessageText(msg, text))
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        // A running summary made for this request goes after the reply, where the next request finds it
+        let summary: TerminalMessage | null = null
+
+        try {
+            const response = await fetch("/api/chat", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ messages: history, llm: activeTheme.llm, systemPrompt: activeTheme.systemPrompt }),
+                signal: controller.signal,
+            })
+            if (!response.ok || !response.body) {
+                throw new Error((await response.text()) || `Request failed with status ${response.status}`)
+            }
+
+            for await (const event of decodeChatStream(response.body)) {
+                if (event.type === "context" && event.summary) summary = createSummaryMessage(event.summary.text, event.summary.throughId)
+                else if (event.type === "text") appendToResponse(event.text)
+                else if (event.type === "usage") updateResponse((msg) => updateMessageMetadata(msg, { inputTokens: event.inputTokens, outputTokens: event.outputTokens }))
+                else if (event.type === "stop") updateResponse((msg) => updateMessageMetadata(msg, { stopReason: event.reason }))
+                else if (event.type === "error") {
+                    appendToResponse(`\n[ERROR] ${event.message}`)
+                    updateResponse((msg) => updateMessageMetadata(msg, { error: event.message }))
+                }
+            }
+        } catch (error) {
+            // A stopped reply keeps the text that arrived before the stop
+            if (controller.signal.aborted) {
+                updateResponse((msg) => updateMessageMetadata(msg, { stopReason: "cancelled" }))
+                return
+            }
+            const errorMessage = error instanceof Error ? error.message : "Unknown error"
+            appendToResponse(`[ERROR] ${errorMessage}`)
+            updateResponse((msg) => updateMessageMetadata(msg, { error: errorMessage }))
+        } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null
+            setStreamingMessageId(null)
+            if (summary) {
+                const notice = summary
+                setTree((prev) => (prev.leafId === responseId ? appendMessage(prev, notice) : prev))
+            }
+        }
+    }
+
+    const stopReply = () => abortControllerRef.current?.abort()
+    // A regenerated reply and a resent edit become new branches beside the originals
+    const regenerate = () => {
+        const lastUserMessage = messages.findLast((message) => message.role === "user")
+        if (lastUserMessage) streamReply(rewindBranch(tree, lastUserMessage.id))
+    }
+    const resendEdited = (messageId: string, text: string) => {
+        if (streamingMessageId) return
+        setEditingMessageId(null)
+        onInputEntered?.(text)
+        streamReply(forkMessage(tree, messageId, createMessage({ role: "user", agentId: USER_AGENT_ID, text })))
+    }
+    const showBranch = (messageId: string) => setTree((prev) => selectBranch(prev, messageId))
+    const hasBranches = [...childrenMap.values()].some((children) => children.length > 1)
+    const regenerableReplyId = getRegenerableReplyId(messages)
+
+    const addNotice = (text: string) => setTree((prev) => appendMessage(prev, createMessage({ role: "system", agentId: SYSTEM_AGENT_ID, text })))
+    const getSenderName = (message: TerminalMessage) => (message.role === "user" ? theme.userSenderName : message.role === "system" ? "SYSTEM" : theme.senderName)
+    const exportChat = (format: ExportFormat, allBranches = false) => downloadChat({ id, theme, messages, ...(allBranches && { tree }) }, format)
+
+    const commandContext: SlashCommandContext = {
+        theme: activeTheme,
+        themes,
+        messages,
+        setMessages: (messages) => setTree(createMessageTree(messages)),
+        setLLM: setLLMOverride,
+        setSystemPrompt: setSystemPromptOverride,
+        setTheme: onThemeChange && ((themeId) => {
+            setLLMOverride(null)
+            setSystemPromptOverride(null)
+            onThemeChange(themeId)
+        }),
+        exportChat,
+        retry: regenerate,
+    }
+
+    // A failed command stays in the input so it can be fixed
+    const sendMessage = () => {
+        if (!inputValue.trim() || streamingMessageId) return
+        onInputEntered?.(inputValue)
+        if (isSlashCommand(inputValue)) {
+            const { notice, error } = runSlashCommand(inputValue, commandContext)
+            if (error === undefined) setInputValue("")
+            if (error !== undefined || notice) addNotice(error ?? notice!)
+            return
+        }
+        // "//" sends a message that starts with a slash
+        const text = inputValue.trimStart().startsWith("//") ? inputValue.trimStart().slice(1) : inputValue
+        setInputValue("")
+        streamReply(appendMessage(tree, createMessage({ role: "user", agentId: USER_AGENT_ID, text })))
+    }
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === "Tab" && isSlashCommand(inputValue)) {
+            e.preventDefault()
+            setInputValue(completeSlashCommand(inputValue, commandContext))
+        }
+        // Ctrl+C stops the reply as in a shell, unless there is text selected to copy
+        if (e.ctrlKey && e.key.toLowerCase() === "c" && streamingMessageId && e.currentTarget.selectionStart === e.currentTarget.selectionEnd) {
+            e.preventDefault()
+            stopReply()
+        }
+    }
+
+    return {
+        tree,
+        messages,
+        childrenMap,
+        activeTheme,
+        contextUsage,
+        inputValue,
+        setInputValue,
+        streamingMessageId,
+        editingMessageId,
+        setEditingMessageId,
+        regenerableReplyId,
+        hasBranches,
+        sendMessage,
+        handleKeyDown,
+        stopReply,
+        regenerate,
+        resendEdited,
+        showBranch,
+        getSenderName,
+        exportChat,
+    }
+}
@@ -0,0 +1,60 @@
+// Theme banners: the art shown above a terminal's first message
+
+import { FIGLET_FONTS, type FigletFontId } from "@/lib/figlet-fonts"
+import { getFigletFont, renderFiglet } from "@/lib/figlet"
+
+// Text rendered with one of the bundled figlet fonts when the terminal opens
+export interface BannerSpec {
+    text: string
+    font?: FigletFontId
+}
+
+// Raw ASCII art, or a spec rendered at runtime
+export type BannerArt = string | BannerSpec
+
+export const BANNER_FONTS = Object.keys(FIGLET_FONTS) as FigletFontId[]
+
+export const DEFAULT_BANNER_FONT: FigletFontId = "block"
+
+const widthOf = (lines: string[]) => Math.max(0, ...lines.map((line) => line.length))
+
+// Packs words into as few banner rows as possible; null if a single word is already too wide
+const reflow = (words: string[], font: FigletFontId, columns: number) => {
+    const rows: string[][] = []
+    let current = ""
+    for (const word of words) {
+        const joined = current ? `${current} ${word}` : word
+        if (widthOf(renderFiglet(joined, getFigletFont(font))) <= columns) {
+            current = joined
+            continue
+        }
+        if (!current || widthOf(renderFiglet(word, getFigletFont(font))) > columns) return null
+        rows.push(renderFiglet(current, getFigletFont(font)))
+        current = word
+    }
+    if (current) rows.push(renderFiglet(current, getFigletFont(font)))
+    return rows.map((row) => row.join("\n")).join("\n\n")
+}
+
+// Renders the banner to fit `columns` characters. A spec that does not fit on one row is
+// wrapped word by word, then tried in the smaller fonts, and finally shown as plain text;
+// raw art cannot be reflowed, so it is dropped when too wide. Returns null for no banner.
+export const renderBanner = (art: BannerArt, columns = Infinity) => {
+    if (typeof art === "string") {
+        if (!art.trim()) return null
+        return widthOf(art.split("\n")) <= columns ? art : null
+    }
+
+    const text = art.text.trim()
+    if (!text) return null
+    const requested = art.font ?? DEFAULT_BANNER_FONT
+    const fonts = [requested, ...BANNER_FONTS.filter((font) => font !== requested)]
+        .filter((font) => getFigletFont(font).height <= getFigletFont(requested).height)
+        .sort((a, b) => getFigletFont(b).height - getFigletFont(a).height)
+    const words = text.split(/\s+/)
+    for (const font of fonts) {
+        const banner = reflow(words, font, columns)
+        if (banner !== null) return banner
+    }
+    return text
+}
@@ -0,0 +1,171 @@
+// Transcript export for terminal windows: JSON (re-importable), Markdown, plain text, HTML and fine-tuning JSONL
+
+import type { TerminalTheme } from "@/lib/terminal-themes"
+import type { MessageTree, TerminalMessage } from "@/types/terminal-types"
+import { getMessageText, serializeMessage, toProviderMessages } from "@/lib/messages"
+import { getBranches } from "@/lib/message-tree"
+import { downloadFile } from "@/lib/utils"
+
+export type ExportFormat = "json" | "markdown" | "text" | "html" | "jsonl"
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { id: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown" },
+    { id: "text", label: "Plain text log", extension: "txt", mimeType: "text/plain" },
+    { id: "html", label: "HTML page", extension: "html", mimeType: "text/html" },
+    { id: "jsonl", label: "Fine-tuning JSONL", extension: "jsonl", mimeType: "application/jsonl" },
+    { id: "json", label: "JSON (re-importable)", extension: "json", mimeType: "application/json" },
+]
+
+export interface ExportableChat {
+    id: string
+    theme: TerminalTheme
+    // The branch on screen
+    messages: TerminalMessage[]
+    // Given to export every branch instead
+    tree?: MessageTree
+}
+
+// Transcripts write out each branch in full, one after the other
+const getExportBranches = ({ messages, tree }: ExportableChat) => (tree ? getBranches(tree) : [messages])
+
+const branchHeading = (index: number, count: number) => `Branch ${index + 1} of ${count}`
+
+const senderLabel = (theme: TerminalTheme, message: TerminalMessage) =>
+    message.role === "user" ? theme.userSenderName : message.role === "system" ? "SYSTEM" : theme.senderName
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+// Same shape that chat-import reads back; the whole tree keeps each message's parentId and the branch on screen
+const toJSON = ({ id, theme, messages, tree }: ExportableChat) =>
+    JSON.stringify(
+        {
+            id,
+            theme: theme.id,
+            timestamp: new Date().toISOString(),
+            messages: (tree?.messages ?? messages).map(serializeMessage),
+            ...(tree && { leafId: tree.leafId }),
+        },
+        null,
+        2,
+    )
+
+const toMarkdown = (chat: ExportableChat) => {
+    const branches = getExportBranches(chat)
+    return [
+        `# ${chat.theme.name}`,
+        `_Exported ${new Date().toLocaleString()}_`,
+        ...branches.flatMap((messages, index) => [
+            ...(branches.length > 1 ? [`## ${branchHeading(index, branches.length)}`] : []),
+            ...messages.map((msg) => `**${senderLabel(chat.theme, msg)}** · ${formatTime(msg.timestamp)}\n\n${getMessageText(msg)}`),
+        ]),
+    ].join("\n\n") + "\n"
+}
+
+// Reads like the terminal itself: `[10:42] USER> hello`, continuation lines indented under the prompt
+const toText = (chat: ExportableChat) => {
+    const branches = getExportBranches(chat)
+    return [
+        `${chat.theme.name} - exported ${new Date().toLocaleString()}`,
+        ...branches.flatMap((messages, index) => [
+            "",
+            ...(branches.length > 1 ? [`--- ${branchHeading(index, branches.length)} ---`] : []),
+            ...messages.map((msg) => {
+                const prompt = `[${formatTime(msg.timestamp)}] ${senderLabel(chat.theme, msg)}> `
+                return prompt + getMessageText(msg).split("\n").join("\n" + " ".repeat(prompt.length))
+            }),
+        ]),
+    ].join("\n") + "\n"
+}
+
+// One training example per branch, in the OpenAI chat fine-tuning format
+const toJSONL = (chat: ExportableChat) => {
+    const system = chat.theme.systemPrompt ? [{ role: "system", content: chat.theme.systemPrompt }] : []
+    return getExportBranches(chat)
+        .map((messages) => {
+            // Fine-tuning examples hold exactly what the chat requests send
+            const turns = toProviderMessages(messages).filter((msg) => msg.content.trim())
+            return JSON.stringify({ messages: [...system, ...turns] }) + "\n"
+        })
+        .join("")
+}
+
+const escapeHTML = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+
+// Themes carry Tailwind classes like `bg-[#f0ede6]`; pull out the hex color for plain CSS
+const classColor = (className: string | undefined, fallback: string) => className?.match(/#[0-9a-fA-F]{3,8}\b/)?.[0] ?? fallback
+
+const toHTML = (chat: ExportableChat) => {
+    const { theme } = chat
+    const styles = theme.styles
+    const page = classColor(styles.background, "#f0ede6")
+    const text = classColor(styles.text, "#5a5751")
+    const header = classColor(styles.headerBackground, "#e5e1d8")
+    const border = classColor(styles.border, "#c8c3b8")
+    const message = classColor(styles.messageBackground, header)
+    const messageText = classColor(styles.messageText, text)
+    const accent = classColor(styles.messageBorder, border)
+    const userMessage = classColor(styles.userMessageBackground, header)
+    const userText = classColor(styles.userMessageText, text)
+    const muted = classColor(styles.timestampText, text)
+
+    const branches = getExportBranches(chat)
+    const body = branches
+        .flatMap((messages, index) => [
+            ...(branches.length > 1 ? [`    <h2>${branchHeading(index, branches.length)}</h2>`] : []),
+            ...messages.map((msg) => {
+                return `    <div class="message ${msg.role === "user" ? "user" : "model"}">
+      <div class="meta"><strong>${escapeHTML(senderLabel(theme, msg))}</strong><span>${escapeHTML(formatTime(msg.timestamp))}</span></div>
+      <p>${escapeHTML(getMessageText(msg))}</p>
+    </div>`
+            }),
+        ])
+        .join("\n")
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHTML(theme.name)} transcript</title>
+  <style>
+    body { margin: 0; padding: 2rem 1rem; background: ${page}; color: ${text}; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 14px; }
+    main { max-width: 720px; margin: 0 auto; border: 1px solid ${border}; border-radius: 8px; overflow: hidden; }
+    header { padding: 0.75rem 1rem; background: ${header}; border-bottom: 1px solid ${border}; font-weight: 600; }
+    header small { display: block; font-weight: 400; color: ${muted}; }
+    .messages { display: grid; gap: 0.75rem; padding: 1rem; }
+    .message { padding: 0.5rem 0.75rem; border-radius: 4px; }
+    .model { background: ${message}; color: ${messageText}; border-left: 2px solid ${accent}; }
+    .user { background: ${userMessage}; color: ${userText}; margin-left: 2rem; }
+    .meta { display: flex; justify-content: space-between; font-size: 12px; margin-bottom: 0.25rem; }
+    .meta span { color: ${muted}; }
+    p { margin: 0; white-space: pre-wrap; word-wrap: break-word; }
+    h2 { margin: 0.5rem 0 0; font-size: 13px; color: ${muted}; }
+  </style>
+</head>
+<body>
+  <main>
+    <header>${escapeHTML(theme.name)}<small>Exported ${escapeHTML(new Date().toLocaleString())}</small></header>
+    <div class="messages">
+${body}
+    </div>
+  </main>
+</body>
+</html>
+`
+}
+
+const formatters: Record<ExportFormat, (chat: ExportableChat) => string> = {
+    json: toJSON,
+    markdown: toMarkdown,
+    text: toText,
+    html: toHTML,
+    jsonl: toJSONL,
+}
+
+export const formatChat = (chat: ExportableChat, format: ExportFormat) => formatters[format](chat)
+
+export const downloadChat = (chat: ExportableChat, format: ExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS.find((f) => f.id === format)!
+    downloadFile(formatChat(chat, format), `${chat.theme.name}-chat`, extension, mimeType)
+}
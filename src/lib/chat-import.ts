@@ -0,0 +1,103 @@
+// Reads chat exports (the JSON files written by the terminals' export button) back into terminal history
+
+import { builtInThemes, getThemeById, type TerminalTheme } from "@/lib/terminal-themes"
+import type { SerializedMessage, TerminalMessage } from "@/types/terminal-types"
+import { createMessage, isMessageLike, USER_AGENT_ID } from "@/lib/messages"
+import { isRecord } from "@/lib/utils"
+
+// Exports are small; anything bigger is almost certainly the wrong file
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+
+// Shape written by exportChat. Exports from before the shared message model carry
+// `{ id, content, sender: "user" | "system", timestamp }` messages instead, and still import.
+export interface ChatExport {
+    id: string
+    theme: string
+    timestamp: string
+    messages: SerializedMessage[]
+    // Exports of every branch: the message the branch on screen ended at
+    leafId?: string | null
+}
+
+export interface ImportedChat {
+    id: string
+    theme: TerminalTheme
+    exportedAt: Date | null
+    messages: TerminalMessage[]
+    leafId: string | null
+}
+
+const parseDate = (value: unknown) => {
+    if (typeof value !== "string") return null
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+}
+
+type ImportResult = { chat: ImportedChat; error?: undefined } | { chat?: undefined; error: string }
+
+// Validates parsed JSON against the ChatExport schema; themes missing from `themes` fall back to the default theme
+export const validateChatExport = (data: unknown, themes: TerminalTheme[] = builtInThemes): ImportResult => {
+    if (!isRecord(data)) {
+        return { error: "Chat export must be a JSON object." }
+    }
+    if (typeof data.theme !== "string") {
+        return { error: "Chat export is missing its theme id." }
+    }
+    if (!Array.isArray(data.messages)) {
+        return { error: "Chat export is missing its messages array." }
+    }
+
+    const theme = getThemeById(data.theme, themes)
+    const messages: TerminalMessage[] = []
+    for (const [index, message] of data.messages.entries()) {
+        if (!isRecord(message)) {
+            return { error: `Message ${index + 1} is not an object.` }
+        }
+        const timestamp = parseDate(message.timestamp)
+        if (!timestamp) {
+            return { error: `Message ${index + 1} has an invalid timestamp.` }
+        }
+        // Keep exported ids when they are unique, so React keys stay stable
+        const id = typeof message.id === "string" && !messages.some((m) => m.id === message.id) ? message.id : `import-${index}-${timestamp.getTime()}`
+
+        if (isMessageLike(message)) {
+            messages.push({ ...message, id, timestamp })
+        } else if (typeof message.content === "string" && (message.sender === "user" || message.sender === "system")) {
+            // Legacy export: "system" was the terminal's own model
+            messages.push(
+                message.sender === "user"
+                    ? createMessage({ role: "user", agentId: USER_AGENT_ID, text: message.content, id, timestamp })
+                    : createMessage({ role: "assistant", agentId: theme.id, text: message.content, id, timestamp }),
+            )
+        } else {
+            return { error: `Message ${index + 1} needs a role, agentId and content parts.` }
+        }
+    }
+
+    return {
+        chat: {
+            id: typeof data.id === "string" ? data.id : "imported",
+            theme,
+            exportedAt: parseDate(data.timestamp),
+            messages,
+            leafId: typeof data.leafId === "string" ? data.leafId : null,
+        },
+    }
+}
+
+export const parseChatExport = (raw: string, themes?: TerminalTheme[]): ImportResult => {
+    let data: unknown
+    try {
+        data = JSON.parse(raw)
+    } catch {
+        return { error: "File is not valid JSON." }
+    }
+    return validateChatExport(data, themes)
+}
+
+export const readChatExport = async (file: File, themes?: TerminalTheme[]): Promise<ImportResult> => {
+    if (file.size > MAX_IMPORT_BYTES) {
+        return { error: `${file.name} is too large to be a chat export.` }
+    }
+    return parseChatExport(await file.text(), themes)
+}
@@ -0,0 +1,134 @@
+// Provider-neutral event protocol streamed by /api/chat, with the server encoder and client decoder
+//
+// Every event is sent as a single SSE frame: `data: <json>\n\n`. A stream always ends with a `done` event.
+// A `context` event comes first when older turns were left out to fit the model's context window,
+// carrying the new running summary if they were summarized.
+// Group chat streams tag events with the `agentId` of the speaking participant and bracket each reply
+// with `turn_start` / `turn_end`.
+
+// "cancelled" is never sent by a provider: it marks a reply the user stopped
+export type ChatStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "content_filter" | "tool_use" | "cancelled"
+
+export type ChatStreamEvent =
+    | { type: "text"; text: string; agentId?: string }
+    | { type: "usage"; inputTokens?: number; outputTokens?: number; agentId?: string }
+    | { type: "stop"; reason: ChatStopReason; agentId?: string }
+    | { type: "error"; message: string; agentId?: string }
+    | { type: "context"; dropped: number; summary?: { text: string; throughId: string } }
+    | { type: "turn_start"; agentId: string }
+    | { type: "turn_end"; agentId: string }
+    | { type: "done" }
+
+const CHAT_STREAM_HEADERS = {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+}
+
+export const encodeChatEvent = (event: ChatStreamEvent): string => `data: ${JSON.stringify(event)}\n\n`
+
+// Map OpenAI finish reasons onto the shared stop reasons
+export const fromOpenAIFinishReason = (reason: string): ChatStopReason => {
+    switch (reason) {
+        case "length":
+            return "max_tokens"
+        case "content_filter":
+            return "content_filter"
+        case "tool_calls":
+        case "function_call":
+            return "tool_use"
+        default:
+            return "end_turn"
+    }
+}
+
+// Anthropic stop reasons already match the shared names
+export const fromAnthropicStopReason = (reason: string): ChatStopReason =>
+    reason === "max_tokens" || reason === "stop_sequence" || reason === "tool_use" ? reason : "end_turn"
+
+// Map Gemini finish reasons onto the shared stop reasons
+export const fromGoogleFinishReason = (reason: string): ChatStopReason => {
+    switch (reason) {
+        case "MAX_TOKENS":
+            return "max_tokens"
+        case "SAFETY":
+        case "RECITATION":
+        case "BLOCKLIST":
+        case "PROHIBITED_CONTENT":
+        case "SPII":
+            return "content_filter"
+        default:
+            return "end_turn"
+    }
+}
+
+// Server side: a controller for a request's provider calls that aborts along with the request's signal.
+// Not every runtime fires that signal when the client goes away, so the response stream aborts it too.
+export const createRequestAbortController = (signal: AbortSignal) => {
+    const controller = new AbortController()
+    if (signal.aborted) controller.abort()
+    else signal.addEventListener("abort", () => controller.abort(), { once: true })
+    return controller
+}
+
+// Server side: serialize a provider adapter's events into an SSE response.
+// Errors thrown mid-stream become an `error` event instead of a broken connection.
+// `abort` is the request's controller: once the client has gone or cancelled the response, the provider
+// call is aborted, the events are closed and nothing more is sent.
+export const toChatStreamResponse = (events: AsyncIterable<ChatStreamEvent>, abort?: AbortController): Response => {
+    const encoder = new TextEncoder()
+    const iterator = events[Symbol.asyncIterator]()
+    let isCancelled = false
+    const isStopped = () => isCancelled || !!abort?.signal.aborted
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ChatStreamEvent) => {
+                if (!isStopped()) controller.enqueue(encoder.encode(encodeChatEvent(event)))
+            }
+            try {
+                for (let result = await iterator.next(); !result.done && !isStopped(); result = await iterator.next()) {
+                    send(result.value)
+                }
+            } catch (error) {
+                if (isStopped()) return
+                send({ type: "error", message: error instanceof Error ? error.message : "Stream interrupted" })
+            }
+            if (isStopped()) return
+            send({ type: "done" })
+            controller.close()
+        },
+        cancel() {
+            isCancelled = true
+            abort?.abort()
+            // Lets the generators run their cleanup; the aborted provider call may reject here
+            iterator.return?.().catch(() => {})
+        },
+    })
+    return new Response(stream, { headers: CHAT_STREAM_HEADERS })
+}
+
+// Client side: decode a /api/chat response body into events, stopping at `done`
+export async function* decodeChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+    try {
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            buffer += decoder.decode(value, { stream: true })
+            const frames = buffer.split("\n\n")
+            buffer = frames.pop() ?? ""
+            for (const frame of frames) {
+                for (const line of frame.split("\n")) {
+                    if (!line.startsWith("data:")) continue
+                    const event = JSON.parse(line.slice(5).trim()) as ChatStreamEvent
+                    yield event
+                    if (event.type === "done") return
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock()
+    }
+}
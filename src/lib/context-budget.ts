@@ -0,0 +1,118 @@
+// Token estimates and context budgeting for chat requests, safe to use on the client and the server.
+// Providers count with their own tokenizers; these estimates only need to be close enough to keep a
+// request inside the model's context window, and to drive the terminals' context meters.
+
+import type { TerminalLLM, TerminalMessage } from "@/types/terminal-types"
+import { getContextWindow, type LLMProvider } from "@/lib/llm-config"
+import { createMessage, getMessageText, type ProviderMessage, SYSTEM_AGENT_ID, toProviderMessages } from "@/lib/messages"
+
+// Characters of English text per token, and the fixed cost of each turn's role markers
+type TokenizerProfile = { charsPerToken: number; tokensPerMessage: number }
+
+const PROVIDER_TOKENIZERS: Record<LLMProvider, TokenizerProfile> = {
+    openai: { charsPerToken: 4, tokensPerMessage: 4 },
+    anthropic: { charsPerToken: 3.5, tokensPerMessage: 5 },
+    google: { charsPerToken: 4, tokensPerMessage: 4 },
+    // Llama-family tokenizers split text a little finer than OpenAI's
+    local: { charsPerToken: 3.7, tokensPerMessage: 4 },
+}
+
+// Models whose tokenizer differs from the rest of their provider's
+const MODEL_TOKENIZERS: Record<string, TokenizerProfile> = {
+    // o200k, the larger vocabulary of the gpt-4o family
+    "gpt-4o": { charsPerToken: 4.4, tokensPerMessage: 4 },
+    "gpt-4o-mini": { charsPerToken: 4.4, tokensPerMessage: 4 },
+}
+
+const getTokenizerProfile = ({ provider, model }: Pick<TerminalLLM, "provider" | "model">) =>
+    MODEL_TOKENIZERS[model] ?? PROVIDER_TOKENIZERS[provider]
+
+// Text outside ASCII (accents, CJK, emoji) is counted at a token per character, which overestimates
+// accented text slightly and keeps the estimate on the safe side
+export const estimateTokens = (text: string, llm: Pick<TerminalLLM, "provider" | "model">) => {
+    if (!text) return 0
+    const other = text.match(/[^\x00-\x7f]/gu)?.length ?? 0
+    const ascii = text.replace(/[^\x00-\x7f]/gu, "").length
+    return Math.ceil(ascii / getTokenizerProfile(llm).charsPerToken) + other
+}
+
+const estimateTurnTokens = (text: string, llm: TerminalLLM) => getTokenizerProfile(llm).tokensPerMessage + estimateTokens(text, llm)
+
+const estimateSystemTokens = (system: string, llm: TerminalLLM) => (system ? estimateTurnTokens(system, llm) : 0)
+
+// Most input tokens a request may use: the window less the room kept for the reply, capped by the theme's budget
+export const getContextBudget = (llm: TerminalLLM) =>
+    Math.max(0, Math.min(getContextWindow(llm) - llm.maxTokens, llm.contextBudget ?? Infinity))
+
+// A running summary is a system notice whose `summaryThroughId` names the last message it stands in for.
+// Requests send the summary with the system prompt and only the messages after that one.
+export const createSummaryMessage = (text: string, throughId: string) =>
+    createMessage({ role: "system", agentId: SYSTEM_AGENT_ID, text, metadata: { summaryThroughId: throughId } })
+
+const splitAtSummary = (messages: TerminalMessage[]) => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const throughId = messages[i].metadata?.summaryThroughId
+        if (!throughId) continue
+        // A summary whose messages are not on this branch (or not before it) covers nothing here
+        const end = messages.findIndex((message) => message.id === throughId)
+        if (end !== -1 && end < i) return { summary: getMessageText(messages[i]), rest: messages.slice(end + 1) }
+    }
+    return { summary: undefined, rest: messages }
+}
+
+export const withSummary = (system: string, summary: string | undefined) =>
+    summary ? [system, `Summary of the earlier conversation, which is no longer shown in full:\n${summary}`].filter(Boolean).join("\n\n") : system
+
+// The turns a provider would be sent, kept as messages so dropped ones can be summarized by id
+const getRequestTurns = (messages: TerminalMessage[]) => {
+    const turns = messages.filter((m) => m.role !== "system" && (m.role === "user" || getMessageText(m) !== ""))
+    const firstUserIndex = turns.findIndex((m) => m.role === "user")
+    return firstUserIndex === -1 ? [] : turns.slice(firstUserIndex)
+}
+
+export interface ContextUsage {
+    // Estimated input tokens of the next request before anything is trimmed
+    tokens: number
+    budget: number
+    contextWindow: number
+}
+
+export const getContextUsage = (messages: TerminalMessage[], llm: TerminalLLM, systemPrompt: string): ContextUsage => {
+    const { summary, rest } = splitAtSummary(messages)
+    const tokens = getRequestTurns(rest).reduce(
+        (total, message) => total + estimateTurnTokens(getMessageText(message), llm),
+        estimateSystemTokens(withSummary(systemPrompt, summary), llm),
+    )
+    return { tokens, budget: getContextBudget(llm), contextWindow: getContextWindow(llm) }
+}
+
+export interface ContextFit {
+    // The system prompt with the running summary, if the branch has one
+    system: string
+    conversation: ProviderMessage[]
+    // Oldest turns left out to stay within the budget, for a new running summary to cover
+    dropped: TerminalMessage[]
+    // The running summary the request already builds on
+    summary?: string
+}
+
+// Drops the oldest exchanges until the request fits the budget. The latest user turn is always sent,
+// and the conversation still opens on a user turn, so a long enough final message can stay over budget.
+export const fitToContext = (messages: TerminalMessage[], llm: TerminalLLM, systemPrompt: string): ContextFit => {
+    const { summary, rest } = splitAtSummary(messages)
+    const system = withSummary(systemPrompt, summary)
+    const turns = getRequestTurns(rest)
+    const budget = getContextBudget(llm)
+    const lastUserIndex = turns.findLastIndex((m) => m.role === "user")
+
+    let tokens = turns.reduce((total, message) => total + estimateTurnTokens(getMessageText(message), llm), estimateSystemTokens(system, llm))
+    let start = 0
+    while (tokens > budget && start < lastUserIndex) {
+        do {
+            tokens -= estimateTurnTokens(getMessageText(turns[start]), llm)
+            start++
+        } while (start < lastUserIndex && turns[start].role !== "user")
+    }
+
+    return { system, conversation: toProviderMessages(turns.slice(start)), dropped: turns.slice(0, start), summary }
+}
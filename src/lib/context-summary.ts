@@ -0,0 +1,41 @@
+// Server-side running summaries: folds the turns a request had to leave out into the conversation's
+// summary, using the terminal's own model
+
+import type { TerminalLLM, TerminalMessage } from "@/types/terminal-types"
+import { streamCompletion } from "@/lib/llm-providers"
+import { getMessageText } from "@/lib/messages"
+import { estimateTokens, getContextBudget } from "@/lib/context-budget"
+
+const SUMMARY_MAX_TOKENS = 512
+
+const SUMMARY_PROMPT =
+    "You keep a running summary of a conversation that has grown too long to send in full. " +
+    "Rewrite the current summary so it also covers the new messages. Keep names, facts, decisions, open questions " +
+    "and anything the user asked to be remembered; leave out small talk. Reply with only the summary, in at most 300 words."
+
+// Returns the new summary text, or the current one if the model sent nothing back
+export const summarizeTurns = async (
+    config: TerminalLLM,
+    currentSummary: string | undefined,
+    turns: TerminalMessage[],
+    signal?: AbortSignal,
+): Promise<string> => {
+    const summarizer = { ...config, temperature: 0, maxTokens: SUMMARY_MAX_TOKENS }
+    const header = currentSummary ? `Current summary:\n${currentSummary}\n\nNew messages:\n` : "New messages:\n"
+
+    // Turns that do not fit the summarizer's own window are forgotten, oldest first
+    let room = getContextBudget(summarizer) - estimateTokens(SUMMARY_PROMPT + header, summarizer)
+    const lines: string[] = []
+    for (const turn of [...turns].reverse()) {
+        const line = `${turn.role === "user" ? "User" : "Assistant"}: ${getMessageText(turn)}`
+        room -= estimateTokens(line, summarizer) + 2
+        if (room < 0) break
+        lines.unshift(line)
+    }
+
+    let summary = ""
+    for await (const event of await streamCompletion(summarizer, SUMMARY_PROMPT, [{ role: "user", content: header + lines.join("\n\n") }], signal)) {
+        if (event.type === "text") summary += event.text
+    }
+    return summary.trim() || currentSummary || ""
+}
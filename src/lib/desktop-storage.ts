@@ -0,0 +1,174 @@
+// Browser persistence for the terminal desktop: the window list, with every terminal's and group chat's
+// session, and the user's own themes, saved to IndexedDB
+//
+// Snapshots are stored as JSON with a schema version. Older snapshots are upgraded through
+// `migrations` on load; snapshots from a newer schema than this build understands are ignored.
+
+import type { TerminalTheme } from "@/lib/terminal-themes"
+import { validateTheme } from "@/lib/theme-schema"
+import type { DesktopWindow, TerminalMessage } from "@/types/terminal-types"
+import { isRecord } from "@/lib/utils"
+
+export const DESKTOP_SCHEMA_VERSION = 4
+
+const DB_NAME = "terminal-desktop"
+// Version of the IndexedDB object stores, independent of the snapshot schema version
+const DB_VERSION = 1
+const STORE_NAME = "sessions"
+const DESKTOP_KEY = "desktop"
+
+export interface DesktopSnapshot {
+    windows: DesktopWindow[]
+    nextZIndex: number
+    // Themes made in the theme editor or imported from theme packs
+    themes: TerminalTheme[]
+}
+
+type StoredDesktop = DesktopSnapshot & { version: number; savedAt: string }
+
+// Stored snapshots of earlier schema versions, as the migrations read them
+type V1Message = Omit<TerminalMessage, "role" | "agentId" | "content"> & { sender: string; content: string }
+type V2Terminal = Pick<DesktopWindow, "isOpen" | "isToolbarMinimized" | "messages" | "scrollPosition" | "zIndex"> & {
+    // Missing from some older snapshots
+    createdAt?: number
+    position?: DesktopWindow["position"]
+}
+type V1Terminal = Omit<V2Terminal, "messages"> & { messages: V1Message[] }
+type V1Desktop = { terminals: Record<string, V1Terminal>; groupParticipants: string[]; nextZIndex: number }
+type V2Desktop = Omit<V1Desktop, "terminals"> & { terminals: Record<string, V2Terminal> }
+type V3Desktop = Omit<DesktopSnapshot, "themes">
+
+// Upgrades a stored snapshot from version N (the key) to N + 1
+const migrations: Record<number, (data: unknown) => unknown> = {
+    // v1 messages had a `sender` and string content. In a terminal, "system" was the terminal's own
+    // model; in the group chat it was an app notice and every other sender was a participant id.
+    1: (data): V2Desktop => {
+        const snapshot = data as V1Desktop
+        return {
+            ...snapshot,
+            terminals: Object.fromEntries(
+                Object.entries(snapshot.terminals).map(([type, terminal]) => [
+                    type,
+                    {
+                        ...terminal,
+                        messages: terminal.messages.map(({ sender, content, ...message }): TerminalMessage => ({
+                            ...message,
+                            role: sender === "user" ? "user" : type === "group" && sender === "system" ? "system" : "assistant",
+                            agentId: sender === "system" && type !== "group" ? type : sender,
+                            content: content ? [{ type: "text", text: content }] : [],
+                        })),
+                    },
+                ]),
+            ),
+        }
+    },
+    // v2 had one fixed terminal per key ("default", "npc", "void", "group"). Closed terminals are
+    // dropped; the rest become windows whose id is the old key, so group participants still match.
+    // Windows without a createdAt get their toolbar position, so fullscreen cycling keeps a stable order.
+    2: (data): V3Desktop => {
+        const { terminals, groupParticipants, ...snapshot } = data as V2Desktop
+        return {
+            ...snapshot,
+            windows: Object.entries(terminals)
+                .filter(([, terminal]) => terminal.isOpen || terminal.isToolbarMinimized)
+                .map(([type, terminal], index): DesktopWindow => ({
+                    ...terminal,
+                    createdAt: typeof terminal.createdAt === "number" && Number.isFinite(terminal.createdAt) ? terminal.createdAt : index,
+                    id: type,
+                    kind: type === "group" ? "group" : "terminal",
+                    themeId: type === "group" ? "default" : type,
+                    instance: 1,
+                    position: terminal.position ?? { x: 50, y: 50 },
+                    ...(type === "group" && { participants: groupParticipants }),
+                })),
+        }
+    },
+    3: (data): DesktopSnapshot => ({ ...(data as V3Desktop), themes: [] }),
+}
+
+// JSON turns Dates into ISO strings; turn message timestamps back into Dates
+const reviveDates = (key: string, value: unknown) => {
+    if (key === "timestamp" && typeof value === "string") {
+        const date = new Date(value)
+        return isNaN(date.getTime()) ? new Date(0) : date
+    }
+    return value
+}
+
+// A saved theme that no longer validates (e.g. its model was removed from the allowlist) is dropped,
+// and its windows fall back to the default theme
+const restoreTheme = (value: unknown): TerminalTheme[] => {
+    const { theme, error } = validateTheme(value)
+    if (error !== undefined) console.warn(`Dropping saved theme. ${error}`)
+    return theme ? [theme] : []
+}
+
+export const serializeDesktop = (desktop: DesktopSnapshot): string =>
+    JSON.stringify({ ...desktop, version: DESKTOP_SCHEMA_VERSION, savedAt: new Date().toISOString() } satisfies StoredDesktop)
+
+export const deserializeDesktop = (raw: string): DesktopSnapshot | null => {
+    const stored: unknown = JSON.parse(raw, reviveDates)
+    if (!isRecord(stored) || typeof stored.version !== "number" || stored.version > DESKTOP_SCHEMA_VERSION) {
+        return null
+    }
+    let data: unknown = stored
+    for (let version = stored.version; version < DESKTOP_SCHEMA_VERSION; version++) {
+        const migrate = migrations[version]
+        if (!migrate) return null
+        data = migrate(data)
+    }
+    if (!isRecord(data)) {
+        return null
+    }
+    const { windows, nextZIndex, themes } = data as Partial<StoredDesktop>
+    if (!Array.isArray(windows)) {
+        return null
+    }
+    return { windows, nextZIndex: typeof nextZIndex === "number" && Number.isFinite(nextZIndex) ? nextZIndex : 20, themes: Array.isArray(themes) ? themes.flatMap(restoreTheme) : [] }
+}
+
+const openDatabase = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME)
+            }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+const runRequest = async <T,>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase()
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+    } finally {
+        db.close()
+    }
+}
+
+// Resolves to null when nothing usable is stored or IndexedDB is unavailable
+export const loadDesktop = async (): Promise<DesktopSnapshot | null> => {
+    if (typeof indexedDB === "undefined") return null
+    try {
+        const raw = await runRequest<unknown>("readonly", (store) => store.get(DESKTOP_KEY))
+        return typeof raw === "string" ? deserializeDesktop(raw) : null
+    } catch (error) {
+        console.error("Failed to load desktop session:", error)
+        return null
+    }
+}
+
+export const saveDesktop = async (desktop: DesktopSnapshot) => {
+    if (typeof indexedDB === "undefined") return
+    try {
+        await runRequest("readwrite", (store) => store.put(serializeDesktop(desktop), DESKTOP_KEY))
+    } catch (error) {
+        console.error("Failed to save desktop session:", error)
+    }
+}
@@ -0,0 +1,527 @@
+// Figlet fonts bundled with the app, in the standard FLF format (see lib/figlet.ts).
+// Both only define characters 32-95; lowercase letters render with the uppercase glyphs.
+
+export type FigletFontId = "block" | "segment"
+
+export const FIGLET_FONTS: Record<FigletFontId, string> = {
+    block: `flf2a$ 5 5 8 -1 2
+block: 5-line solid pixel font
+Characters 32-95; lowercase renders as uppercase
+  $@
+  $@
+  $@
+  $@
+  $@@
+█$@
+█$@
+█$@
+ $@
+█$@@
+█ █$@
+█ █$@
+   $@
+   $@
+   $@@
+█ █$@
+███$@
+█ █$@
+███$@
+█ █$@@
+ ██$@
+██ $@
+ █ $@
+ ██$@
+██ $@@
+█ █$@
+  █$@
+ █ $@
+█  $@
+█ █$@@
+ █ $@
+█ █$@
+ █ $@
+█ █$@
+ ██$@@
+█$@
+█$@
+ $@
+ $@
+ $@@
+ █$@
+█ $@
+█ $@
+█ $@
+ █$@@
+█ $@
+ █$@
+ █$@
+ █$@
+█ $@@
+   $@
+█ █$@
+ █ $@
+█ █$@
+   $@@
+   $@
+ █ $@
+███$@
+ █ $@
+   $@@
+ $@
+ $@
+ $@
+█$@
+█$@@
+   $@
+   $@
+███$@
+   $@
+   $@@
+ $@
+ $@
+ $@
+ $@
+█$@@
+  █$@
+  █$@
+ █ $@
+█  $@
+█  $@@
+███$@
+█ █$@
+█ █$@
+█ █$@
+███$@@
+ █ $@
+██ $@
+ █ $@
+ █ $@
+███$@@
+██ $@
+  █$@
+ █ $@
+█  $@
+███$@@
+██ $@
+  █$@
+ █ $@
+  █$@
+██ $@@
+█ █$@
+█ █$@
+███$@
+  █$@
+  █$@@
+███$@
+█  $@
+██ $@
+  █$@
+██ $@@
+ ██$@
+█  $@
+███$@
+█ █$@
+███$@@
+███$@
+  █$@
+ █ $@
+ █ $@
+ █ $@@
+███$@
+█ █$@
+███$@
+█ █$@
+███$@@
+███$@
+█ █$@
+███$@
+  █$@
+██ $@@
+ $@
+█$@
+ $@
+█$@
+ $@@
+ $@
+█$@
+ $@
+█$@
+█$@@
+  █$@
+ █ $@
+█  $@
+ █ $@
+  █$@@
+   $@
+███$@
+   $@
+███$@
+   $@@
+█  $@
+ █ $@
+  █$@
+ █ $@
+█  $@@
+██ $@
+  █$@
+ █ $@
+   $@
+ █ $@@
+ █ $@
+█ █$@
+█ █$@
+█  $@
+ ██$@@
+ █ $@
+█ █$@
+███$@
+█ █$@
+█ █$@@
+██ $@
+█ █$@
+██ $@
+█ █$@
+██ $@@
+ ██$@
+█  $@
+█  $@
+█  $@
+ ██$@@
+██ $@
+█ █$@
+█ █$@
+█ █$@
+██ $@@
+███$@
+█  $@
+██ $@
+█  $@
+███$@@
+███$@
+█  $@
+██ $@
+█  $@
+█  $@@
+ ██$@
+█  $@
+█ █$@
+█ █$@
+ ██$@@
+█ █$@
+█ █$@
+███$@
+█ █$@
+█ █$@@
+███$@
+ █ $@
+ █ $@
+ █ $@
+███$@@
+  █$@
+  █$@
+  █$@
+█ █$@
+ █ $@@
+█ █$@
+█ █$@
+██ $@
+█ █$@
+█ █$@@
+█  $@
+█  $@
+█  $@
+█  $@
+███$@@
+█   █$@
+██ ██$@
+█ █ █$@
+█   █$@
+█   █$@@
+█  █$@
+██ █$@
+█ ██$@
+█  █$@
+█  █$@@
+ █ $@
+█ █$@
+█ █$@
+█ █$@
+ █ $@@
+██ $@
+█ █$@
+██ $@
+█  $@
+█  $@@
+ █ $@
+█ █$@
+█ █$@
+██ $@
+ ██$@@
+██ $@
+█ █$@
+██ $@
+█ █$@
+█ █$@@
+ ██$@
+█  $@
+ █ $@
+  █$@
+██ $@@
+███$@
+ █ $@
+ █ $@
+ █ $@
+ █ $@@
+█ █$@
+█ █$@
+█ █$@
+█ █$@
+███$@@
+█ █$@
+█ █$@
+█ █$@
+█ █$@
+ █ $@@
+█   █$@
+█   █$@
+█ █ █$@
+██ ██$@
+█   █$@@
+█ █$@
+█ █$@
+ █ $@
+█ █$@
+█ █$@@
+█ █$@
+█ █$@
+ █ $@
+ █ $@
+ █ $@@
+███$@
+  █$@
+ █ $@
+█  $@
+███$@@
+██$@
+█ $@
+█ $@
+█ $@
+██$@@
+█  $@
+█  $@
+ █ $@
+  █$@
+  █$@@
+██$@
+ █$@
+ █$@
+ █$@
+██$@@
+ █ $@
+█ █$@
+   $@
+   $@
+   $@@
+   $@
+   $@
+   $@
+   $@
+███$@@
+`,
+    segment: `flf2a$ 3 3 8 -1 2
+segment: 3-line font in the style of a seven-segment display
+Characters 32-95; lowercase renders as uppercase
+  $@
+  $@
+  $@@
+ $@
+|$@
+o$@@
+$@
+$@
+$@@
+$@
+$@
+$@@
+$@
+$@
+$@@
+$@
+$@
+$@@
+$@
+$@
+$@@
+|$@
+ $@
+ $@@
+ /$@
+| $@
+ \\$@@
+\\ $@
+ |$@
+/ $@@
+$@
+$@
+$@@
+   $@
+_|_$@
+ | $@@
+ $@
+ $@
+,$@@
+  $@
+__$@
+  $@@
+ $@
+ $@
+o$@@
+  $@
+ /$@
+/ $@@
+ _ $@
+|/|$@
+|_|$@@
+  $@
+/|$@
+ |$@@
+ _ $@
+ _)$@
+/_ $@@
+_ $@
+_)$@
+_)$@@
+   $@
+|_|$@
+  |$@@
+ _ $@
+|_ $@
+ _)$@@
+ _ $@
+|_ $@
+|_)$@@
+__ $@
+  /$@
+ / $@@
+ _ $@
+(_)$@
+(_)$@@
+ _ $@
+(_|$@
+  |$@@
+ $@
+o$@
+o$@@
+$@
+$@
+$@@
+$@
+$@
+$@@
+  $@
+--$@
+--$@@
+$@
+$@
+$@@
+__ $@
+ _)$@
+ o $@@
+$@
+$@
+$@@
+ _ $@
+|_|$@
+| |$@@
+ _ $@
+|_)$@
+|_)$@@
+ _ $@
+|  $@
+|_ $@@
+ _ $@
+| \\$@
+|_/$@@
+ _ $@
+|_ $@
+|_ $@@
+ _ $@
+|_ $@
+|  $@@
+ __$@
+| _$@
+|_|$@@
+   $@
+|_|$@
+| |$@@
+ $@
+|$@
+|$@@
+   $@
+  |$@
+|_|$@@
+   $@
+|_/$@
+| \\$@@
+   $@
+|  $@
+|_ $@@
+    $@
+|\\/|$@
+|  |$@@
+    $@
+|\\ |$@
+| \\|$@@
+ _ $@
+| |$@
+|_|$@@
+ _ $@
+|_)$@
+|  $@@
+ _ $@
+| |$@
+|_\\$@@
+ _ $@
+|_)$@
+| \\$@@
+ _ $@
+(_ $@
+ _)$@@
+___$@
+ | $@
+ | $@@
+   $@
+| |$@
+|_|$@@
+   $@
+\\ /$@
+ V $@@
+    $@
+|  |$@
+|/\\|$@@
+   $@
+\\_/$@
+/ \\$@@
+   $@
+\\_/$@
+ | $@@
+__ $@
+ / $@
+/_ $@@
+$@
+$@
+$@@
+  $@
+\\ $@
+ \\$@@
+$@
+$@
+$@@
+$@
+$@
+$@@
+   $@
+   $@
+___$@@
+`,
+}
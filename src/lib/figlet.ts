@@ -0,0 +1,71 @@
+// Minimal figlet: parses FLF fonts and renders text as multi-line ASCII art
+
+import { FIGLET_FONTS, type FigletFontId } from "@/lib/figlet-fonts"
+
+export interface FigletFont {
+    height: number
+    hardblank: string
+    glyphs: Map<string, string[]>
+}
+
+// "full" puts glyphs side by side; "fitted" slides each glyph left until it touches the previous one
+export type FigletLayout = "full" | "fitted"
+
+// Parses an FLF font. Fonts that stop before '~' are accepted; the missing characters just have no glyph.
+export const parseFigletFont = (source: string): FigletFont => {
+    const lines = source.split(/\r?\n/)
+    const header = lines[0]?.match(/^flf2a(.) (\d+) \d+ \d+ -?\d+ (\d+)/)
+    if (!header) throw new Error("Not a figlet font: missing flf2a header")
+
+    const hardblank = header[1]
+    const height = Number(header[2])
+    const glyphs = new Map<string, string[]>()
+    let line = 1 + Number(header[3])
+    for (let code = 32; code <= 126 && line + height <= lines.length; code++) {
+        // Each row ends with the endmark, doubled on the glyph's last row
+        const rows = lines.slice(line, line + height).map((row) => {
+            const trimmed = row.trimEnd()
+            let end = trimmed.length
+            while (end > 0 && trimmed[end - 1] === trimmed.at(-1)) end--
+            return trimmed.slice(0, end)
+        })
+        glyphs.set(String.fromCharCode(code), rows)
+        line += height
+    }
+    return { height, hardblank, glyphs }
+}
+
+const fontCache = new Map<FigletFontId, FigletFont>()
+
+export const getFigletFont = (id: FigletFontId) => {
+    let font = fontCache.get(id)
+    if (!font) {
+        font = parseFigletFont(FIGLET_FONTS[id])
+        fontCache.set(id, font)
+    }
+    return font
+}
+
+const leadingSpaces = (row: string) => row.length - row.trimStart().length
+
+const trailingSpaces = (row: string) => row.length - row.trimEnd().length
+
+// Joins a glyph onto the rows, removing the blank columns the two have in common
+const fitGlyph = (rows: string[], glyph: string[]) => {
+    const overlap = Math.min(...rows.map((row, i) => trailingSpaces(row) + leadingSpaces(glyph[i])))
+    return rows.map((row, i) => {
+        const fromLeft = Math.min(trailingSpaces(row), overlap)
+        return row.slice(0, row.length - fromLeft) + glyph[i].slice(overlap - fromLeft)
+    })
+}
+
+// Renders one line of text; characters the font lacks fall back to their uppercase glyph, then are skipped
+export const renderFiglet = (text: string, font: FigletFont, layout: FigletLayout = "fitted") => {
+    let rows: string[] = Array(font.height).fill("")
+    for (const char of text) {
+        const glyph = font.glyphs.get(char) ?? font.glyphs.get(char.toUpperCase())
+        if (!glyph) continue
+        rows = layout === "fitted" ? fitGlyph(rows, glyph) : rows.map((row, i) => row + glyph[i])
+    }
+    return rows.map((row) => row.replaceAll(font.hardblank, " ").trimEnd())
+}
@@ -0,0 +1,197 @@
+// Server-side group chat orchestration: runs participant turns through the real providers,
+// giving each agent the shared transcript with speaker attribution
+
+import type { TerminalTheme } from "@/lib/terminal-themes"
+import type { TerminalMessage } from "@/types/terminal-types"
+import type { ChatStreamEvent } from "@/lib/chat-stream"
+import { streamCompletion } from "@/lib/llm-providers"
+import { type ProviderMessage, getMessageText, USER_AGENT_ID } from "@/lib/messages"
+import { type TurnPolicy, clampRounds, parseMentions } from "@/lib/turn-policies"
+
+export type GroupChatParticipant = Pick<TerminalTheme, "id" | "senderName" | "systemPrompt" | "llm">
+
+// `agentId` is "user" or the id of the participant that wrote the message
+export type GroupChatMessage = Pick<TerminalMessage, "role" | "agentId" | "content">
+
+export type GroupChatOptions = {
+    policy: TurnPolicy
+    // Free-for-all rounds, or the most turns a moderator may hand out
+    rounds?: number
+    userName?: string
+    // Aborts every provider call, e.g. once the client has gone
+    signal?: AbortSignal
+}
+
+const getSpeakerName = (agentId: string, participants: GroupChatParticipant[], userName: string) =>
+    agentId === USER_AGENT_ID ? userName : participants.find((p) => p.id === agentId)?.senderName ?? agentId.toUpperCase()
+
+// The transcript as one participant sees it: its own replies are assistant turns, everything
+// else is a user turn prefixed with the speaker's name. Consecutive turns of the same role are
+// merged because Anthropic requires alternating roles.
+export const buildParticipantView = (
+    participant: GroupChatParticipant,
+    participants: GroupChatParticipant[],
+    transcript: GroupChatMessage[],
+    userName = "USER",
+) => {
+    const others = [userName, ...participants.filter((p) => p.id !== participant.id).map((p) => p.senderName)]
+    const system = [
+        participant.systemPrompt,
+        `You are ${participant.senderName} in a group chat with ${others.join(", ")}. ` +
+        `Messages from others are prefixed with the speaker's name. Reply only as ${participant.senderName}, ` +
+        "without prefixing your own name, and never write lines for other speakers.",
+    ]
+        .filter(Boolean)
+        .join("\n\n")
+
+    const conversation: ProviderMessage[] = []
+    // App notices in the transcript are never shown to the agents
+    for (const message of transcript.filter((m) => m.role !== "system")) {
+        const isOwn = message.agentId === participant.id
+        const role = isOwn ? "assistant" : "user"
+        const text = getMessageText(message)
+        const content = isOwn ? text : `${getSpeakerName(message.agentId, participants, userName)}: ${text}`
+        const last = conversation[conversation.length - 1]
+        if (last?.role === role) {
+            last.content += `\n\n${content}`
+        } else {
+            conversation.push({ role, content })
+        }
+    }
+
+    // Providers expect the conversation to open and end on a user turn
+    while (conversation[0]?.role === "assistant") conversation.shift()
+    if (conversation.length === 0 || conversation[conversation.length - 1].role === "assistant") {
+        conversation.push({ role: "user", content: "(Continue the conversation.)" })
+    }
+
+    return { system, conversation }
+}
+
+// Run one turn for a participant, tagging every event with its id.
+// The finished reply is appended to the transcript so later speakers see it.
+export async function* runParticipantTurn(
+    participant: GroupChatParticipant,
+    participants: GroupChatParticipant[],
+    transcript: GroupChatMessage[],
+    userName?: string,
+    signal?: AbortSignal,
+): AsyncGenerator<ChatStreamEvent> {
+    const agentId = participant.id
+    yield { type: "turn_start", agentId }
+    let reply = ""
+    try {
+        const { system, conversation } = buildParticipantView(participant, participants, transcript, userName)
+        const events = await streamCompletion(participant.llm, system, conversation, signal)
+        for await (const event of events) {
+            if (event.type === "text") reply += event.text
+            yield { ...event, agentId } as ChatStreamEvent
+        }
+    } catch (error) {
+        // One failing participant should not end the whole round, but a cancelled request ends it
+        if (signal?.aborted) throw error
+        yield { type: "error", message: error instanceof Error ? error.message : "Participant failed to reply", agentId }
+    }
+    if (reply.trim()) {
+        transcript.push({ role: "assistant", agentId, content: [{ type: "text", text: reply }] })
+    }
+    yield { type: "turn_end", agentId }
+}
+
+// Ids are compared against whole tokens of the answer, so `npc` never matches "npc-2" or a word
+// that merely contains it. An answer naming several participants is ambiguous and picks nobody.
+const matchSpeaker = (answer: string, participants: GroupChatParticipant[]) => {
+    const tokens = new Set(answer.toLowerCase().split(/[^\w-]+/))
+    const named = participants.filter((p) => tokens.has(p.id.trim().toLowerCase()))
+    return named.length === 1 ? named[0] : null
+}
+
+// Ask a moderator model which participant should speak next; null hands the floor back to the user
+const pickNextSpeaker = async (
+    participants: GroupChatParticipant[],
+    transcript: GroupChatMessage[],
+    userName: string,
+    signal?: AbortSignal,
+): Promise<GroupChatParticipant | null> => {
+    const roster = participants.map((p) => `- ${p.id} (${p.senderName})`).join("\n")
+    const system =
+        `You moderate a group chat between ${userName} and these participants:\n${roster}\n\n` +
+        "Read the conversation and decide who should speak next. Reply with only the id of that participant, " +
+        `or DONE if the conversation should go back to ${userName}.`
+    const log = transcript
+        .filter((m) => m.role !== "system")
+        .map((m) => `${getSpeakerName(m.agentId, participants, userName)}: ${getMessageText(m)}`)
+        .join("\n\n")
+
+    // The first participant's model moderates, deterministically and briefly
+    const moderator = { ...participants[0].llm, temperature: 0, maxTokens: 16 }
+    let answer = ""
+    for await (const event of await streamCompletion(moderator, system, [{ role: "user", content: log || "(No messages yet.)" }], signal)) {
+        if (event.type === "text") answer += event.text
+    }
+    return matchSpeaker(answer, participants)
+}
+
+// Shuffled copy, so free-for-all speakers do not always answer in the same order
+const shuffle = <T,>(items: T[]) => {
+    const shuffled = [...items]
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+    }
+    return shuffled
+}
+
+// Run the agents' replies to the latest user message according to the turn policy
+export async function* runGroupChat(
+    participants: GroupChatParticipant[],
+    messages: GroupChatMessage[],
+    { policy, rounds, userName = "USER", signal }: GroupChatOptions,
+): AsyncGenerator<ChatStreamEvent> {
+    const transcript = [...messages]
+
+    switch (policy) {
+        case "round-robin":
+            for (const participant of participants) {
+                yield* runParticipantTurn(participant, participants, transcript, userName, signal)
+            }
+            return
+
+        case "addressed": {
+            const lastUserMessage = [...transcript].reverse().find((m) => m.agentId === USER_AGENT_ID)
+            const addressed = parseMentions(lastUserMessage ? getMessageText(lastUserMessage) : "", participants)
+            for (const id of addressed) {
+                const participant = participants.find((p) => p.id === id)!
+                yield* runParticipantTurn(participant, participants, transcript, userName, signal)
+            }
+            return
+        }
+
+        case "moderator": {
+            const maxTurns = clampRounds(rounds, participants.length)
+            for (let turn = 0; turn < maxTurns; turn++) {
+                let next: GroupChatParticipant | null
+                try {
+                    next = await pickNextSpeaker(participants, transcript, userName, signal)
+                } catch (error) {
+                    if (signal?.aborted) throw error
+                    yield { type: "error", message: `Moderator failed: ${error instanceof Error ? error.message : "unknown error"}` }
+                    return
+                }
+                if (!next) return
+                yield* runParticipantTurn(next, participants, transcript, userName, signal)
+            }
+            return
+        }
+
+        case "free-for-all": {
+            const totalRounds = clampRounds(rounds)
+            for (let round = 0; round < totalRounds; round++) {
+                for (const participant of shuffle(participants)) {
+                    yield* runParticipantTurn(participant, participants, transcript, userName, signal)
+                }
+            }
+            return
+        }
+    }
+}
@@ -0,0 +1,64 @@
+// Readline-style editing for the terminal inputs: input history and the Ctrl key bindings, as pure
+// functions over the input's text and cursor position
+
+// Entries kept per window; the oldest are dropped first
+export const MAX_INPUT_HISTORY = 100
+
+export interface LineState {
+    value: string
+    cursor: number
+}
+
+export type LineEdit = "lineStart" | "lineEnd" | "killToLineStart" | "killWordBefore"
+
+// Ctrl+<key> bindings, as in bash and emacs
+export const LINE_EDIT_KEYS: Record<string, LineEdit> = {
+    a: "lineStart",
+    e: "lineEnd",
+    u: "killToLineStart",
+    w: "killWordBefore",
+}
+
+// Appends an entry, oldest first; repeating the previous entry does not add it again
+export const addToInputHistory = (history: string[], entry: string) => {
+    if (!entry.trim() || history[history.length - 1] === entry) return history
+    return [...history, entry].slice(-MAX_INPUT_HISTORY)
+}
+
+// Index of the newest entry before `before` that contains `query`, or -1
+export const searchInputHistory = (history: string[], query: string, before = history.length) => {
+    for (let i = Math.min(before, history.length) - 1; i >= 0; i--) {
+        if (history[i].toLowerCase().includes(query.toLowerCase())) return i
+    }
+    return -1
+}
+
+// Multiline input edits the line the cursor is on
+const lineStartOf = (value: string, cursor: number) => value.lastIndexOf("\n", cursor - 1) + 1
+
+const lineEndOf = (value: string, cursor: number) => {
+    const end = value.indexOf("\n", cursor)
+    return end === -1 ? value.length : end
+}
+
+export const isOnFirstLine = ({ value, cursor }: LineState) => !value.slice(0, cursor).includes("\n")
+
+export const isOnLastLine = ({ value, cursor }: LineState) => !value.slice(cursor).includes("\n")
+
+export const editLine = ({ value, cursor }: LineState, edit: LineEdit): LineState => {
+    switch (edit) {
+        case "lineStart":
+            return { value, cursor: lineStartOf(value, cursor) }
+        case "lineEnd":
+            return { value, cursor: lineEndOf(value, cursor) }
+        case "killToLineStart": {
+            const start = lineStartOf(value, cursor)
+            return { value: value.slice(0, start) + value.slice(cursor), cursor: start }
+        }
+        // Whitespace before the cursor goes too, as with bash's unix-word-rubout
+        case "killWordBefore": {
+            const start = value.slice(0, cursor).search(/\S*\s*$/)
+            return { value: value.slice(0, start) + value.slice(cursor), cursor: start }
+        }
+    }
+}
@@ -0,0 +1,104 @@
+// Per-request LLM configuration: model allowlists and validation for the chat route
+
+import type { ContextPolicy, TerminalLLM } from "@/types/terminal-types"
+
+export type LLMProvider = TerminalLLM["provider"]
+
+// Models each provider is allowed to run, first entry is the provider default
+export const ALLOWED_MODELS: Record<LLMProvider, string[]> = {
+    openai: ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-3.5-turbo"],
+    anthropic: [
+        "claude-3-opus-20240229",
+        "claude-3-5-sonnet-20241022",
+        "claude-3-5-haiku-20241022",
+        "claude-3-haiku-20240307",
+    ],
+    google: ["gemini-1.5-flash", "gemini-1.5-pro", "gemini-2.0-flash"],
+    // Whatever the local server has loaded, configurable as a comma-separated list (inlined by next.config.ts)
+    local: (process.env.LOCAL_LLM_MODELS || "mock-local,llama3.1").split(",").map((model) => model.trim()),
+}
+
+// Upper bounds accepted by each provider's API
+const TEMPERATURE_RANGE: Record<LLMProvider, { min: number; max: number }> = {
+    openai: { min: 0, max: 2 },
+    anthropic: { min: 0, max: 1 },
+    google: { min: 0, max: 2 },
+    local: { min: 0, max: 2 },
+}
+
+export const MAX_TOKENS_LIMIT = 4096
+
+// Input plus output tokens each model accepts, per the providers' model pages
+const CONTEXT_WINDOWS: Record<string, number> = {
+    "gpt-4o": 128_000,
+    "gpt-4o-mini": 128_000,
+    "gpt-4-turbo": 128_000,
+    "gpt-3.5-turbo": 16_385,
+    "claude-3-opus-20240229": 200_000,
+    "claude-3-5-sonnet-20241022": 200_000,
+    "claude-3-5-haiku-20241022": 200_000,
+    "claude-3-haiku-20240307": 200_000,
+    "gemini-1.5-flash": 1_048_576,
+    "gemini-1.5-pro": 2_097_152,
+    "gemini-2.0-flash": 1_048_576,
+}
+
+// Local servers load models with whatever context they were started with; Ollama defaults to 8k
+const LOCAL_CONTEXT_WINDOW = Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || 8192
+
+// Models missing from the table are the local server's
+export const getContextWindow = ({ model }: Pick<TerminalLLM, "model">) => CONTEXT_WINDOWS[model] ?? LOCAL_CONTEXT_WINDOW
+
+export const CONTEXT_POLICIES: ContextPolicy[] = ["trim", "summarize"]
+
+// Smallest contextBudget accepted: enough for a system prompt and a short exchange
+export const MIN_CONTEXT_BUDGET = 1024
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp and vLLM servers work the same way
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1"
+
+export const isLLMProvider = (value: unknown): value is LLMProvider =>
+    typeof value === "string" && Object.hasOwn(ALLOWED_MODELS, value)
+
+export const getDefaultLLMConfig = (provider: LLMProvider): TerminalLLM => ({
+    id: `${provider}-default`,
+    provider,
+    model: ALLOWED_MODELS[provider][0],
+    temperature: 0.7,
+    maxTokens: 1024,
+})
+
+type LLMConfigResult = { config: TerminalLLM; error?: undefined } | { config?: undefined; error: string }
+
+// Validate an LLM config from a request body, filling unset fields with provider defaults
+export const resolveLLMConfig = (llm: Partial<TerminalLLM> | undefined, modelProvider?: unknown): LLMConfigResult => {
+    const provider = llm?.provider ?? modelProvider
+    if (!isLLMProvider(provider)) {
+        return { error: `Invalid model provider specified. Use one of: ${Object.keys(ALLOWED_MODELS).join(", ")}.` }
+    }
+
+    const config = { ...getDefaultLLMConfig(provider), ...llm, provider }
+
+    if (!ALLOWED_MODELS[provider].includes(config.model)) {
+        return { error: `Model '${config.model}' is not allowed for provider '${provider}'.` }
+    }
+
+    const { min, max } = TEMPERATURE_RANGE[provider]
+    if (typeof config.temperature !== "number" || config.temperature < min || config.temperature > max) {
+        return { error: `Temperature must be a number between ${min} and ${max} for provider '${provider}'.` }
+    }
+
+    if (!Number.isInteger(config.maxTokens) || config.maxTokens < 1 || config.maxTokens > MAX_TOKENS_LIMIT) {
+        return { error: `maxTokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}.` }
+    }
+
+    if (config.contextPolicy !== undefined && !CONTEXT_POLICIES.includes(config.contextPolicy)) {
+        return { error: `contextPolicy must be one of: ${CONTEXT_POLICIES.join(", ")}.` }
+    }
+
+    if (config.contextBudget !== undefined && (!Number.isInteger(config.contextBudget) || config.contextBudget < MIN_CONTEXT_BUDGET)) {
+        return { error: `contextBudget must be an integer of at least ${MIN_CONTEXT_BUDGET}.` }
+    }
+
+    return { config }
+}
@@ -0,0 +1,149 @@
+// Server-side provider calls: run one completion for a TerminalLLM config and adapt it to chat stream events
+
+import OpenAI from "openai"
+import Anthropic from "@anthropic-ai/sdk"
+import { GoogleGenerativeAI, type EnhancedGenerateContentResponse } from "@google/generative-ai"
+import type { TerminalLLM } from "@/types/terminal-types"
+import { DEFAULT_LOCAL_BASE_URL } from "@/lib/llm-config"
+import {
+    type ChatStreamEvent,
+    fromAnthropicStopReason,
+    fromGoogleFinishReason,
+    fromOpenAIFinishReason,
+} from "@/lib/chat-stream"
+import type { ProviderMessage } from "@/lib/messages"
+
+// Thrown before any request is made when the provider's key is not configured
+export class MissingApiKeyError extends Error {
+    constructor(envVar: string) {
+        super(`Missing ${envVar} environment variable`)
+        this.name = "MissingApiKeyError"
+    }
+}
+
+// Adapt OpenAI completion chunks to the shared chat stream events
+async function* openAIEvents(stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>): AsyncGenerator<ChatStreamEvent> {
+    for await (const chunk of stream) {
+        const choice = chunk.choices[0]
+        if (choice?.delta?.content) {
+            yield { type: "text", text: choice.delta.content }
+        }
+        if (choice?.finish_reason) {
+            yield { type: "stop", reason: fromOpenAIFinishReason(choice.finish_reason) }
+        }
+        // Usage arrives on a final chunk with no choices when include_usage is set
+        if (chunk.usage) {
+            yield { type: "usage", inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens }
+        }
+    }
+}
+
+// Adapt Anthropic message stream events to the shared chat stream events
+async function* anthropicEvents(stream: AsyncIterable<Anthropic.MessageStreamEvent>): AsyncGenerator<ChatStreamEvent> {
+    let inputTokens: number | undefined
+    for await (const chunk of stream) {
+        if (chunk.type === "message_start") {
+            inputTokens = chunk.message.usage.input_tokens
+        } else if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
+            yield { type: "text", text: chunk.delta.text }
+        } else if (chunk.type === "message_delta") {
+            if (chunk.delta.stop_reason) {
+                yield { type: "stop", reason: fromAnthropicStopReason(chunk.delta.stop_reason) }
+            }
+            yield { type: "usage", inputTokens, outputTokens: chunk.usage.output_tokens }
+        }
+    }
+}
+
+// Adapt Gemini response chunks to the shared chat stream events
+async function* googleEvents(stream: AsyncIterable<EnhancedGenerateContentResponse>): AsyncGenerator<ChatStreamEvent> {
+    let usage: EnhancedGenerateContentResponse["usageMetadata"]
+    for await (const chunk of stream) {
+        const text = chunk.text()
+        if (text) {
+            yield { type: "text", text }
+        }
+        const finishReason = chunk.candidates?.[0]?.finishReason
+        if (finishReason) {
+            yield { type: "stop", reason: fromGoogleFinishReason(finishReason) }
+        }
+        // Gemini reports cumulative usage on every chunk, so only the last one matters
+        usage = chunk.usageMetadata ?? usage
+    }
+    if (usage) {
+        yield { type: "usage", inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount }
+    }
+}
+
+// Start a streaming completion. Resolves once the provider accepted the request,
+// so request errors surface before the response stream is opened. Aborting `signal`
+// cancels the provider request, and the event stream then throws.
+export const streamCompletion = async (
+    config: TerminalLLM,
+    system: string,
+    conversation: ProviderMessage[],
+    signal?: AbortSignal,
+): Promise<AsyncIterable<ChatStreamEvent>> => {
+    // --- OpenAI and local OpenAI-compatible servers ---
+    if (config.provider === "openai" || config.provider === "local") {
+        if (config.provider === "openai" && !process.env.OPENAI_API_KEY) {
+            throw new MissingApiKeyError("OPENAI_API_KEY")
+        }
+        // Local servers ignore the key but the SDK requires one
+        const openaiClient = config.provider === "local"
+            ? new OpenAI({
+                baseURL: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+                apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+            })
+            : new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+        const response = await openaiClient.chat.completions.create({
+            model: config.model,
+            temperature: config.temperature,
+            max_tokens: config.maxTokens,
+            stream: true,
+            stream_options: { include_usage: true },
+            // OpenAI takes the system prompt as the leading message
+            messages: system ? [{ role: "system", content: system }, ...conversation] : conversation,
+        }, { signal })
+        return openAIEvents(response)
+    }
+
+    // --- Anthropic ---
+    if (config.provider === "anthropic") {
+        if (!process.env.ANTHROPIC_API_KEY) {
+            throw new MissingApiKeyError("ANTHROPIC_API_KEY")
+        }
+        const anthropicClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+        const response = await anthropicClient.messages.create({
+            model: config.model,
+            temperature: config.temperature,
+            stream: true,
+            max_tokens: config.maxTokens,
+            ...(system && { system }),
+            messages: conversation,
+        }, { signal })
+        return anthropicEvents(response)
+    }
+
+    // --- Google ---
+    if (!process.env.GOOGLE_API_KEY) {
+        throw new MissingApiKeyError("GOOGLE_API_KEY")
+    }
+    const googleClient = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY)
+    const model = googleClient.getGenerativeModel({
+        model: config.model,
+        ...(system && { systemInstruction: system }),
+        generationConfig: {
+            temperature: config.temperature,
+            maxOutputTokens: config.maxTokens,
+        },
+    })
+    // Gemini calls the assistant role "model"
+    const response = await model.generateContentStream({
+        contents: conversation.map((m) => ({
+            role: m.role === "assistant" ? "model" : "user",
+            parts: [{ text: m.content }],
+        })),
+    }, { signal })
+    return googleEvents(response.stream)
+}
@@ -0,0 +1,336 @@
+// Markdown for model replies: a parser from text to a small syntax tree, which MarkdownMessage renders
+// as React elements. Nothing is ever turned into HTML, so HTML in a reply shows as text.
+//
+// Covers what models write: headings, paragraphs, fenced code, lists, quotes, tables, rules, and
+// inline code, emphasis, strikethrough and links. Unfinished input, as seen while a reply streams,
+// parses too: an unclosed fence is a code block that is still open.
+
+export type MarkdownInline =
+    | { type: "text"; text: string }
+    | { type: "code"; text: string }
+    | { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+    | { type: "link"; href: string; children: MarkdownInline[] }
+    | { type: "break" }
+
+export type TableAlign = "left" | "center" | "right" | null
+
+export type MarkdownBlock =
+    | { type: "paragraph"; children: MarkdownInline[] }
+    | { type: "heading"; level: number; children: MarkdownInline[] }
+    | { type: "code"; language: string; text: string; closed: boolean }
+    | { type: "list"; ordered: boolean; start: number; items: MarkdownBlock[][] }
+    | { type: "quote"; children: MarkdownBlock[] }
+    | { type: "table"; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: "rule" }
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^\s`]*)/
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:(\s{1,4})(.*))?$/
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+
+// Only http(s), mailto and in-page links are kept; anything else (javascript:, data:) renders as text
+const SAFE_HREF = /^(?:https?:\/\/|mailto:|#)/i
+
+// Links written as bare URLs; trailing punctuation is left out of the link
+const BARE_URL = /https?:\/\/[^\s<>"']*[^\s<>"'.,;:!?)\]]/y
+
+const isBlank = (line: string) => !line.trim()
+
+// A fence closes with at least as many of the same character, and nothing after them
+const closesFence = (line: string, fence: string) => {
+    const run = line.trim().match(/^(`+|~+)$/)?.[1]
+    return !!run && run[0] === fence[0] && run.length >= fence.length && line.length - line.trimStart().length <= 3
+}
+
+const isTableStart = (lines: string[], i: number) =>
+    lines[i].includes("|") && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes("-")
+
+// Lines that end a paragraph without a blank line in between. Only lists starting at 1 can interrupt,
+// so a sentence that wraps onto a line like "2024. It was" stays a paragraph.
+const startsBlock = (lines: string[], i: number) => {
+    const line = lines[i]
+    const item = line.match(LIST_ITEM)
+    return (
+        FENCE.test(line) ||
+        HEADING.test(line) ||
+        RULE.test(line) ||
+        QUOTE.test(line) ||
+        isTableStart(lines, i) ||
+        (!!item?.[4]?.trim() && (/^[-*+]$/.test(item[2]) || /^1[.)]$/.test(item[2])))
+    )
+}
+
+const splitTableRow = (line: string) => {
+    const cells = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "").split(/(?<!\\)\|/)
+    return cells.map((cell) => cell.trim().replace(/\\\|/g, "|"))
+}
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+    const lines = source.replace(/\r\n?/g, "\n").split("\n")
+    const blocks: MarkdownBlock[] = []
+    let i = 0
+
+    while (i < lines.length) {
+        const line = lines[i]
+        if (isBlank(line)) {
+            i++
+            continue
+        }
+
+        const fence = line.match(FENCE)
+        if (fence) {
+            const [, indent, marker, language] = fence
+            const code: string[] = []
+            i++
+            while (i < lines.length && !closesFence(lines[i], marker)) {
+                code.push(lines[i].startsWith(indent) ? lines[i].slice(indent.length) : lines[i].trimStart())
+                i++
+            }
+            blocks.push({ type: "code", language, text: code.join("\n"), closed: i < lines.length })
+            i++
+            continue
+        }
+
+        const heading = line.match(HEADING)
+        if (heading) {
+            blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2] ?? "") })
+            i++
+            continue
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: "rule" })
+            i++
+            continue
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = []
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ""))
+            blocks.push({ type: "quote", children: parseMarkdown(quoted.join("\n")) })
+            continue
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line)
+            const align = splitTableRow(lines[i + 1]).map((cell): TableAlign =>
+                cell.startsWith(":") && cell.endsWith(":") ? "center" : cell.endsWith(":") ? "right" : cell.startsWith(":") ? "left" : null,
+            )
+            const rows: MarkdownInline[][][] = []
+            i += 2
+            while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|")) {
+                const cells = splitTableRow(lines[i++])
+                rows.push(header.map((_, column) => parseInline(cells[column] ?? "")))
+            }
+            blocks.push({ type: "table", align: header.map((_, column) => align[column] ?? null), header: header.map(parseInline), rows })
+            continue
+        }
+
+        const item = line.match(LIST_ITEM)
+        if (item) {
+            const ordered = /\d/.test(item[2])
+            const items: MarkdownBlock[][] = []
+            while (i < lines.length) {
+                const next = lines[i].match(LIST_ITEM)
+                if (!next || /\d/.test(next[2]) !== ordered) break
+                // Lines indented to the item's text belong to it, as do lines continuing its paragraph
+                const contentIndent = next[1].length + next[2].length + (next[3]?.length ?? 1)
+                const itemLines = [next[4] ?? ""]
+                i++
+                while (i < lines.length) {
+                    const current = lines[i]
+                    const indent = current.length - current.trimStart().length
+                    if (isBlank(current)) {
+                        if (i + 1 < lines.length && !isBlank(lines[i + 1]) && lines[i + 1].length - lines[i + 1].trimStart().length >= contentIndent) {
+                            itemLines.push("")
+                            i++
+                            continue
+                        }
+                        break
+                    }
+                    if (indent >= contentIndent) itemLines.push(current.slice(contentIndent))
+                    else if (!LIST_ITEM.test(current) && !startsBlock(lines, i)) itemLines.push(current.trim())
+                    else break
+                    i++
+                }
+                items.push(parseMarkdown(itemLines.join("\n")))
+                while (i < lines.length && isBlank(lines[i]) && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1])) i++
+            }
+            blocks.push({ type: "list", ordered, start: ordered ? parseInt(item[2], 10) : 1, items })
+            continue
+        }
+
+        const paragraph = [line]
+        i++
+        while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) paragraph.push(lines[i++])
+        blocks.push({ type: "paragraph", children: parseInline(paragraph.map((l) => l.trimStart()).join("\n")) })
+    }
+    return blocks
+}
+
+// Emphasis delimiters, longest first so "**" is not read as two "*"
+const EMPHASIS: { marker: string; type: "strong" | "em" | "del" }[] = [
+    { marker: "**", type: "strong" },
+    { marker: "__", type: "strong" },
+    { marker: "~~", type: "del" },
+    { marker: "*", type: "em" },
+    { marker: "_", type: "em" },
+]
+
+// Closing delimiter for emphasis opened at `start`: not preceded by whitespace, and for "_" not inside a word
+const findClosing = (text: string, start: number, marker: string) => {
+    let index = text.indexOf(marker, start)
+    while (index !== -1) {
+        const before = text[index - 1]
+        const after = text[index + marker.length]
+        const isSingle = marker.length === 1 && (text[index + 1] === marker || before === marker)
+        if (index > start && !/\s/.test(before) && !isSingle && !(marker[0] === "_" && after && /\w/.test(after))) return index
+        index = text.indexOf(marker, index + 1)
+    }
+    return -1
+}
+
+// Index of the "]" matching the "[" at `start`
+const findBracketEnd = (text: string, start: number) => {
+    let depth = 0
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === "\\") i++
+        else if (text[i] === "[") depth++
+        else if (text[i] === "]" && --depth === 0) return i
+    }
+    return -1
+}
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = []
+    let plain = ""
+    const flush = () => {
+        if (plain) nodes.push({ type: "text", text: plain })
+        plain = ""
+    }
+    const push = (node: MarkdownInline) => {
+        flush()
+        nodes.push(node)
+    }
+
+    let i = 0
+    while (i < text.length) {
+        const char = text[i]
+
+        if (char === "\\" && i + 1 < text.length) {
+            if (text[i + 1] === "\n") push({ type: "break" })
+            else if (/[!-/:-@[-`{-~]/.test(text[i + 1])) plain += text[i + 1]
+            else plain += char + text[i + 1]
+            i += 2
+            continue
+        }
+
+        // Two trailing spaces before a newline force a line break
+        if (char === "\n" && plain.endsWith("  ")) {
+            plain = plain.trimEnd()
+            push({ type: "break" })
+            i++
+            continue
+        }
+
+        if (char === "`") {
+            const run = text.slice(i).match(/^`+/)![0]
+            const end = text.indexOf(run, i + run.length)
+            if (end !== -1 && text[end + run.length] !== "`") {
+                const code = text.slice(i + run.length, end)
+                push({ type: "code", text: /^ .* $/.test(code) ? code.slice(1, -1) : code })
+                i = end + run.length
+                continue
+            }
+            plain += run
+            i += run.length
+            continue
+        }
+
+        // Images are shown as links, so a reply cannot make the browser load arbitrary URLs
+        const isImage = char === "!" && text[i + 1] === "["
+        if (char === "[" || isImage) {
+            const open = isImage ? i + 1 : i
+            const close = findBracketEnd(text, open)
+            const target = close === -1 ? null : text.slice(close + 1).match(/^\(\s*<?([^\s()<>]*)>?(?:\s+"[^"]*")?\s*\)/)
+            if (target) {
+                const label = parseInline(text.slice(open + 1, close))
+                const children = label.length > 0 ? label : [{ type: "text" as const, text: target[1] }]
+                if (SAFE_HREF.test(target[1])) {
+                    push({ type: "link", href: target[1], children })
+                } else {
+                    flush()
+                    nodes.push(...children)
+                }
+                i = close + 1 + target[0].length
+                continue
+            }
+        }
+
+        if (char === "<") {
+            const autolink = text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i)
+            if (autolink) {
+                push({ type: "link", href: autolink[1], children: [{ type: "text", text: autolink[1] }] })
+                i += autolink[0].length
+                continue
+            }
+        }
+
+        if (char === "h" && !/\w/.test(text[i - 1] ?? "")) {
+            BARE_URL.lastIndex = i
+            const url = BARE_URL.exec(text)?.[0]
+            if (url) {
+                push({ type: "link", href: url, children: [{ type: "text", text: url }] })
+                i += url.length
+                continue
+            }
+        }
+
+        const emphasis = EMPHASIS.find(({ marker }) => text.startsWith(marker, i))
+        if (emphasis) {
+            const { marker, type } = emphasis
+            const opensInsideWord = marker[0] === "_" && /\w/.test(text[i - 1] ?? "")
+            const next = text[i + marker.length]
+            const end = opensInsideWord || !next || /\s/.test(next) ? -1 : findClosing(text, i + marker.length, marker)
+            if (end !== -1) {
+                push({ type, children: parseInline(text.slice(i + marker.length, end)) })
+                i = end + marker.length
+                continue
+            }
+            plain += marker
+            i += marker.length
+            continue
+        }
+
+        plain += char
+        i++
+    }
+    flush()
+    return nodes
+}
+
+// Splits a reply into runs of blocks at blank lines outside code fences, except before indented lines,
+// which continue a list item. Text that streams in only changes the last run, so the renderer can keep
+// every earlier run as it was.
+export const splitMarkdown = (source: string): string[] => {
+    const lines = source.replace(/\r\n?/g, "\n").split("\n")
+    const chunks: string[] = []
+    let current: string[] = []
+    let fence: string | null = null
+    for (const [index, line] of lines.entries()) {
+        const marker = line.match(FENCE)?.[2]
+        if (fence === null && marker) fence = marker
+        else if (fence !== null && closesFence(line, fence)) fence = null
+
+        if (fence === null && isBlank(line) && !/^\s+\S/.test(lines[index + 1] ?? "")) {
+            if (current.length > 0) chunks.push(current.join("\n"))
+            current = []
+        } else {
+            current.push(line)
+        }
+    }
+    if (current.length > 0) chunks.push(current.join("\n"))
+    return chunks
+}
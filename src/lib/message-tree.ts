@@ -0,0 +1,104 @@
+// Conversations kept as a tree: every message points at the message it follows (`parentId`), so editing
+// a message or regenerating a reply adds a sibling branch instead of dropping what came after.
+// A window shows one branch at a time, the path from the first message to the tree's `leafId`.
+
+import type { MessageTree, TerminalMessage } from "@/types/terminal-types"
+
+// Builds a tree from stored messages. Messages saved before branching, group chat logs and imports have
+// no `parentId`; they follow the message before them in the list. Without a known `leafId` the branch
+// on screen ends at the last message.
+export const createMessageTree = (messages: TerminalMessage[], leafId?: string | null): MessageTree => {
+    const ids = new Set(messages.map((message) => message.id))
+    const linked = messages.map((message, index) => {
+        const isLinked = message.parentId === null || (message.parentId !== undefined && ids.has(message.parentId))
+        return isLinked ? message : { ...message, parentId: index === 0 ? null : messages[index - 1].id }
+    })
+    return { messages: linked, leafId: leafId && ids.has(leafId) ? leafId : (messages[messages.length - 1]?.id ?? null) }
+}
+
+// The messages on screen, first to last
+export const getBranch = ({ messages, leafId }: MessageTree): TerminalMessage[] => {
+    const byId = new Map(messages.map((message) => [message.id, message]))
+    const branch: TerminalMessage[] = []
+    // Bounded by the message count, so a corrupt import with a parent loop cannot hang the window
+    for (let message = leafId ? byId.get(leafId) : undefined; message && branch.length < messages.length; message = message.parentId ? byId.get(message.parentId) : undefined) {
+        branch.push(message)
+    }
+    return branch.reverse()
+}
+
+// Children of every message in creation order, under `null` for the first messages of the tree
+export const getChildrenMap = ({ messages }: MessageTree) => {
+    const children = new Map<string | null, TerminalMessage[]>()
+    for (const message of messages) {
+        const siblings = children.get(message.parentId ?? null)
+        if (siblings) siblings.push(message)
+        else children.set(message.parentId ?? null, [message])
+    }
+    return children
+}
+
+// Every branch of the tree, one per leaf, oldest first
+export const getBranches = (tree: MessageTree): TerminalMessage[][] => {
+    const children = getChildrenMap(tree)
+    return tree.messages.filter((message) => !children.has(message.id)).map((leaf) => getBranch({ ...tree, leafId: leaf.id }))
+}
+
+// Shows the branch through `id`, following the newest reply wherever it forks further down
+export const selectBranch = (tree: MessageTree, id: string): MessageTree => {
+    const children = getChildrenMap(tree)
+    let leafId = id
+    // Bounded like getBranch, against parent loops
+    for (let step = 0; step < tree.messages.length; step++) {
+        const next = children.get(leafId)
+        if (!next) break
+        leafId = next[next.length - 1].id
+    }
+    return { ...tree, leafId }
+}
+
+// Ends the branch on screen at `id`; what followed it stays in the tree
+export const rewindBranch = (tree: MessageTree, id: string): MessageTree => ({ ...tree, leafId: id })
+
+// Adds a message to the end of the branch on screen
+export const appendMessage = (tree: MessageTree, message: TerminalMessage): MessageTree => ({
+    messages: [...tree.messages, { ...message, parentId: tree.leafId }],
+    leafId: message.id,
+})
+
+// Adds `message` as an alternative to message `id`, starting a new branch from the same point
+export const forkMessage = (tree: MessageTree, id: string, message: TerminalMessage): MessageTree => {
+    const original = tree.messages.find((m) => m.id === id)
+    if (!original) return tree
+    return { messages: [...tree.messages, { ...message, parentId: original.parentId ?? null }], leafId: message.id }
+}
+
+export const updateMessage = (tree: MessageTree, id: string, update: (message: TerminalMessage) => TerminalMessage): MessageTree => ({
+    ...tree,
+    messages: tree.messages.map((message) => (message.id === id ? update(message) : message)),
+})
+
+export interface MessageTreeRow {
+    message: TerminalMessage
+    // Branches are indented one step from the message they fork at; a chain without forks stays level
+    depth: number
+    // First message of one of several alternatives
+    isFork: boolean
+}
+
+// The whole tree as indented rows, each branch listed in full before the next
+export const getMessageTreeRows = (tree: MessageTree): MessageTreeRow[] => {
+    const children = getChildrenMap(tree)
+    const toRows = (siblings: TerminalMessage[], depth: number) =>
+        siblings.map((message) => ({ message, depth, isFork: siblings.length > 1 })).reverse()
+
+    const rows: MessageTreeRow[] = []
+    const stack = toRows(children.get(null) ?? [], 0)
+    while (stack.length > 0) {
+        const row = stack.pop()!
+        rows.push(row)
+        const next = children.get(row.message.id) ?? []
+        stack.push(...toRows(next, next.length > 1 ? row.depth + 1 : row.depth))
+    }
+    return rows
+}
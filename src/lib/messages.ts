@@ -0,0 +1,103 @@
+// Helpers for the shared conversation model (TerminalMessage), safe to use on the client and the server
+
+import type { MessageMetadata, MessageRole, SerializedMessage, TerminalMessage } from "@/types/terminal-types"
+
+// agentId of the person at the keyboard, and of app notices
+export const USER_AGENT_ID = "user"
+export const SYSTEM_AGENT_ID = "system"
+
+// Provider-facing turn: system notices are dropped and content is flattened to text
+export type ProviderMessage = { role: "user" | "assistant"; content: string }
+
+// Date.now() alone collides when a user message and its reply placeholder are created together
+export const createMessageId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export const createMessage = ({
+    role,
+    agentId,
+    text = "",
+    id = createMessageId(),
+    timestamp = new Date(),
+    metadata,
+}: {
+    role: MessageRole
+    agentId: string
+    text?: string
+    id?: string
+    timestamp?: Date
+    metadata?: MessageMetadata
+}): TerminalMessage => ({
+    id,
+    role,
+    agentId,
+    content: text ? [{ type: "text", text }] : [],
+    timestamp,
+    ...(metadata && { metadata }),
+})
+
+export const getMessageText = (message: Pick<TerminalMessage, "content">) =>
+    message.content
+        .filter((part) => part.type === "text")
+        .map((part) => part.text)
+        .join("")
+
+// Streamed tokens extend the last text part
+export const appendMessageText = (message: TerminalMessage, text: string): TerminalMessage => {
+    const last = message.content[message.content.length - 1]
+    return {
+        ...message,
+        content:
+            last?.type === "text"
+                ? [...message.content.slice(0, -1), { type: "text", text: last.text + text }]
+                : [...message.content, { type: "text", text }],
+    }
+}
+
+export const updateMessageMetadata = (message: TerminalMessage, metadata: MessageMetadata): TerminalMessage => ({
+    ...message,
+    metadata: { ...message.metadata, ...metadata },
+})
+
+// The conversation as a provider sees it: no app notices, and starting on a user turn because
+// Anthropic rejects conversations that open with an assistant turn (such as a terminal's greeting).
+// Replies stopped before their first token are dropped too, as providers reject empty turns.
+export const toProviderMessages = (messages: Pick<TerminalMessage, "role" | "content">[]): ProviderMessage[] => {
+    const conversation = messages.filter(
+        (m): m is typeof m & { role: ProviderMessage["role"] } => m.role !== "system" && (m.role === "user" || getMessageText(m) !== ""),
+    )
+    const firstUserIndex = conversation.findIndex((m) => m.role === "user")
+    return (firstUserIndex === -1 ? [] : conversation.slice(firstUserIndex)).map((m) => ({ role: m.role, content: getMessageText(m) }))
+}
+
+// Id of the reply that regenerating replaces: the last one, provided it answers a user turn
+export const getRegenerableReplyId = (messages: TerminalMessage[]) => {
+    const lastUser = messages.findLastIndex((m) => m.role === "user")
+    const lastReply = messages.findLastIndex((m) => m.role === "assistant")
+    return lastUser !== -1 && lastReply > lastUser ? messages[lastReply].id : undefined
+}
+
+export const serializeMessage = ({ timestamp, ...message }: TerminalMessage): SerializedMessage => ({
+    ...message,
+    timestamp: timestamp.toISOString(),
+})
+
+export const deserializeMessage = ({ timestamp, ...message }: SerializedMessage): TerminalMessage => ({
+    ...message,
+    timestamp: new Date(timestamp),
+})
+
+const MESSAGE_ROLES: MessageRole[] = ["user", "assistant", "system"]
+
+// Structural check for messages received as JSON; timestamps may be ISO strings or Dates
+export const isMessageLike = (value: unknown): value is Omit<TerminalMessage, "timestamp"> & { timestamp: string | Date } => {
+    if (typeof value !== "object" || value === null) return false
+    const message = value as Record<string, unknown>
+    return (
+        typeof message.id === "string" &&
+        MESSAGE_ROLES.includes(message.role as MessageRole) &&
+        typeof message.agentId === "string" &&
+        Array.isArray(message.content) &&
+        message.content.every((part) => typeof part?.type === "string" && (part.type !== "text" || typeof part.text === "string")) &&
+        !isNaN(new Date(message.timestamp as string).getTime())
+    )
+}
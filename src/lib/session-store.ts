@@ -0,0 +1,196 @@
+// Server-side conversation store behind /api/sessions and session-backed /api/chat requests
+//
+// Two backends: JSON files on disk (default) and in-memory (SESSION_STORE=memory, for tests and
+// throwaway servers). Both implement SessionStore, so routes never touch storage directly.
+
+import { promises as fs } from "fs"
+import path from "path"
+import type { SerializedMessage, TerminalLLM } from "@/types/terminal-types"
+
+export interface ChatSession {
+    id: string
+    title: string
+    themeId?: string
+    llm?: TerminalLLM
+    systemPrompt?: string
+    messages: SerializedMessage[]
+    createdAt: string
+    updatedAt: string
+}
+
+export type SessionSummary = Omit<ChatSession, "messages" | "systemPrompt"> & { messageCount: number }
+
+export type CreateSessionInput = Partial<Pick<ChatSession, "title" | "themeId" | "llm" | "systemPrompt" | "messages">>
+
+export interface SessionStore {
+    list(): Promise<SessionSummary[]>
+    get(id: string): Promise<ChatSession | null>
+    create(input: CreateSessionInput): Promise<ChatSession>
+    rename(id: string, title: string): Promise<ChatSession | null>
+    delete(id: string): Promise<boolean>
+    appendMessages(id: string, messages: SerializedMessage[]): Promise<ChatSession | null>
+}
+
+// Ids double as file names, so anything else is rejected before it reaches the backend
+export const isValidSessionId = (id: string) => /^[\w-]{1,64}$/.test(id)
+
+const toSummary = ({ id, title, themeId, llm, messages, createdAt, updatedAt }: ChatSession): SessionSummary => ({
+    id,
+    title,
+    themeId,
+    llm,
+    messageCount: messages.length,
+    createdAt,
+    updatedAt,
+})
+
+const newSession = (input: CreateSessionInput): ChatSession => {
+    const now = new Date().toISOString()
+    return {
+        id: crypto.randomUUID(),
+        title: input.title?.trim() || "Untitled session",
+        themeId: input.themeId,
+        llm: input.llm,
+        systemPrompt: input.systemPrompt,
+        messages: input.messages ?? [],
+        createdAt: now,
+        updatedAt: now,
+    }
+}
+
+const withAppended = (session: ChatSession, messages: SerializedMessage[]): ChatSession => ({
+    ...session,
+    messages: [...session.messages, ...messages],
+    updatedAt: new Date().toISOString(),
+})
+
+const byMostRecent = (a: SessionSummary, b: SessionSummary) => b.updatedAt.localeCompare(a.updatedAt)
+
+export const createMemorySessionStore = (): SessionStore => {
+    const sessions = new Map<string, ChatSession>()
+
+    return {
+        async list() {
+            return [...sessions.values()].map(toSummary).sort(byMostRecent)
+        },
+        async get(id) {
+            return sessions.get(id) ?? null
+        },
+        async create(input) {
+            const session = newSession(input)
+            sessions.set(session.id, session)
+            return session
+        },
+        async rename(id, title) {
+            const session = sessions.get(id)
+            if (!session) return null
+            const renamed = { ...session, title, updatedAt: new Date().toISOString() }
+            sessions.set(id, renamed)
+            return renamed
+        },
+        async delete(id) {
+            return sessions.delete(id)
+        },
+        async appendMessages(id, messages) {
+            const session = sessions.get(id)
+            if (!session) return null
+            const updated = withAppended(session, messages)
+            sessions.set(id, updated)
+            return updated
+        },
+    }
+}
+
+// One `<id>.json` file per session
+export const createFileSessionStore = (directory: string): SessionStore => {
+    const filePath = (id: string) => path.join(directory, `${id}.json`)
+
+    const read = async (id: string): Promise<ChatSession | null> => {
+        if (!isValidSessionId(id)) return null
+        try {
+            return JSON.parse(await fs.readFile(filePath(id), "utf8")) as ChatSession
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+            throw error
+        }
+    }
+
+    // Write to a temp file first so a crash never leaves a half-written session.
+    // Each write gets its own temp file, so two writes of a session never rename each other's.
+    const write = async (session: ChatSession) => {
+        await fs.mkdir(directory, { recursive: true })
+        const tempPath = `${filePath(session.id)}.${crypto.randomUUID()}.tmp`
+        await fs.writeFile(tempPath, JSON.stringify(session, null, 2))
+        await fs.rename(tempPath, filePath(session.id))
+        return session
+    }
+
+    // Changes to a session run one at a time, so concurrent appends never read the same
+    // messages and drop each other's, and a delete is never undone by an append finishing after it
+    const pending = new Map<string, Promise<unknown>>()
+    const queue = <T>(id: string, change: () => Promise<T>): Promise<T> => {
+        const result = (pending.get(id) ?? Promise.resolve()).then(change)
+        const settled = result.catch(() => undefined)
+        pending.set(id, settled)
+        settled.then(() => {
+            if (pending.get(id) === settled) pending.delete(id)
+        })
+        return result
+    }
+
+    return {
+        async list() {
+            let files: string[]
+            try {
+                files = await fs.readdir(directory)
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+                throw error
+            }
+            const sessions = await Promise.all(
+                files.filter((file) => file.endsWith(".json")).map((file) => read(file.slice(0, -".json".length))),
+            )
+            return sessions.filter((session): session is ChatSession => session !== null).map(toSummary).sort(byMostRecent)
+        },
+        get: read,
+        async create(input) {
+            return write(newSession(input))
+        },
+        rename(id, title) {
+            return queue(id, async () => {
+                const session = await read(id)
+                return session && write({ ...session, title, updatedAt: new Date().toISOString() })
+            })
+        },
+        async delete(id) {
+            if (!isValidSessionId(id)) return false
+            return queue(id, async () => {
+                try {
+                    await fs.unlink(filePath(id))
+                    return true
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false
+                    throw error
+                }
+            })
+        },
+        appendMessages(id, messages) {
+            return queue(id, async () => {
+                const session = await read(id)
+                return session && write(withAppended(session, messages))
+            })
+        },
+    }
+}
+
+let store: SessionStore | null = null
+
+// Backend is chosen once per server process from SESSION_STORE and SESSION_STORE_DIR
+export const getSessionStore = (): SessionStore => {
+    if (!store) {
+        store = process.env.SESSION_STORE === "memory"
+            ? createMemorySessionStore()
+            : createFileSessionStore(process.env.SESSION_STORE_DIR || path.join(process.cwd(), ".data", "sessions"))
+    }
+    return store
+}
@@ -0,0 +1,221 @@
+// Slash commands typed into a terminal's input, e.g. `/model gpt-4o`. Commands live in a registry,
+// so a feature can add its own with registerSlashCommand; the terminal runs them against a context
+// holding the actions a command may take.
+
+import type { TerminalTheme } from "@/lib/terminal-themes"
+import type { TerminalLLM, TerminalMessage } from "@/types/terminal-types"
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/chat-export"
+import { ALLOWED_MODELS, resolveLLMConfig, type LLMProvider } from "@/lib/llm-config"
+
+export interface SlashCommandContext {
+    // The window's theme with its /model, /temp and /system changes applied
+    theme: TerminalTheme
+    // Themes /theme can switch to
+    themes: TerminalTheme[]
+    messages: TerminalMessage[]
+    setMessages: (messages: TerminalMessage[]) => void
+    setLLM: (llm: TerminalLLM) => void
+    setSystemPrompt: (systemPrompt: string) => void
+    // Missing when the window cannot change theme
+    setTheme?: (themeId: string) => void
+    // `allBranches` exports every branch of the conversation rather than the one on screen
+    exportChat: (format: ExportFormat, allBranches?: boolean) => void
+    // Asks for the last reply again, as a new branch beside the old one
+    retry: () => void
+}
+
+export interface SlashCommand {
+    name: string
+    // Argument placeholder shown in /help and the input hints, e.g. "<model>"
+    args?: string
+    description: string
+    // Argument values offered by tab completion
+    complete?: (context: SlashCommandContext) => string[]
+    // Returns why the arguments cannot be used; the command does not run
+    validate?: (args: string, context: SlashCommandContext) => string | undefined
+    // May return a notice to show in the terminal
+    run: (args: string, context: SlashCommandContext) => string | void
+}
+
+type SlashCommandResult = { notice?: string; error?: undefined } | { notice?: undefined; error: string }
+
+const registry = new Map<string, SlashCommand>()
+
+// Adds a command, replacing any command with the same name
+export const registerSlashCommand = (command: SlashCommand) => {
+    registry.set(command.name, command)
+}
+
+export const getSlashCommands = () => [...registry.values()]
+
+// "//text" escapes the slash and is sent as the message "/text"
+export const isSlashCommand = (input: string) => /^\/(?!\/)/.test(input.trimStart())
+
+export const parseSlashCommand = (input: string) => {
+    const match = input.trimStart().match(/^\/(\S*)\s*([\s\S]*)$/)
+    return match ? { name: match[1].toLowerCase(), args: match[2].trim() } : null
+}
+
+export const runSlashCommand = (input: string, context: SlashCommandContext): SlashCommandResult => {
+    const parsed = parseSlashCommand(input)
+    const command = parsed && registry.get(parsed.name)
+    if (!parsed || !command) {
+        return { error: `Unknown command /${parsed?.name ?? ""}. Type /help to list commands.` }
+    }
+    const error = command.validate?.(parsed.args, context)
+    if (error !== undefined) return { error }
+    return { notice: command.run(parsed.args, context) ?? undefined }
+}
+
+// Commands whose name starts with what has been typed; only the command itself once its name is complete
+export const matchSlashCommands = (input: string) => {
+    const parsed = parseSlashCommand(input)
+    if (!parsed || !isSlashCommand(input)) return []
+    if (/\s/.test(input.trimStart())) return registry.has(parsed.name) ? [registry.get(parsed.name)!] : []
+    return getSlashCommands().filter((command) => command.name.startsWith(parsed.name))
+}
+
+const commonPrefix = (values: string[]) =>
+    values.reduce((prefix, value) => {
+        while (!value.toLowerCase().startsWith(prefix.toLowerCase())) prefix = prefix.slice(0, -1)
+        return prefix
+    })
+
+// Tab completion for the command name, then its argument. Several matches complete as far as they
+// agree; the input comes back unchanged when nothing matches.
+export const completeSlashCommand = (input: string, context: SlashCommandContext) => {
+    const parsed = parseSlashCommand(input)
+    if (!parsed || !isSlashCommand(input)) return input
+
+    if (!/\s/.test(input.trimStart())) {
+        const names = matchSlashCommands(input).map((command) => command.name)
+        if (names.length === 0) return input
+        if (names.length > 1) return `/${commonPrefix(names)}`
+        return registry.get(names[0])!.args ? `/${names[0]} ` : `/${names[0]}`
+    }
+
+    const command = registry.get(parsed.name)
+    const values = (command?.complete?.(context) ?? []).filter((value) => value.toLowerCase().startsWith(parsed.args.toLowerCase()))
+    if (values.length === 0) return input
+    return `/${parsed.name} ${values.length === 1 ? values[0] : commonPrefix(values)}`
+}
+
+// --- Built-in commands ---
+
+const findModelProvider = (model: string) =>
+    (Object.keys(ALLOWED_MODELS) as LLMProvider[]).find((provider) => ALLOWED_MODELS[provider].includes(model))
+
+// Models of the window's current provider come first
+const listModels = ({ theme }: SlashCommandContext) => [
+    ...ALLOWED_MODELS[theme.llm.provider],
+    ...Object.entries(ALLOWED_MODELS).flatMap(([provider, models]) => (provider === theme.llm.provider ? [] : models)),
+]
+
+const findExportFormat = (value: string) =>
+    EXPORT_FORMATS.find((format) => format.id === value.toLowerCase() || format.extension === value.toLowerCase())
+
+registerSlashCommand({
+    name: "help",
+    args: "[command]",
+    description: "List commands, or describe one",
+    complete: () => getSlashCommands().map((command) => command.name),
+    validate: (args) => (args && !registry.has(args.replace(/^\//, "")) ? `Unknown command /${args.replace(/^\//, "")}.` : undefined),
+    run: (args) => {
+        const commands = args ? [registry.get(args.replace(/^\//, ""))!] : getSlashCommands()
+        const usage = (command: SlashCommand) => `/${command.name}${command.args ? ` ${command.args}` : ""}`
+        const width = Math.max(...commands.map((command) => usage(command).length))
+        return commands.map((command) => `${usage(command).padEnd(width)}  ${command.description}`).join("\n")
+    },
+})
+
+registerSlashCommand({
+    name: "clear",
+    description: "Clear this terminal's history",
+    run: (_, { setMessages }) => setMessages([]),
+})
+
+registerSlashCommand({
+    name: "model",
+    args: "<model>",
+    description: "Switch this terminal's model",
+    complete: listModels,
+    validate: (args, { theme }) => {
+        if (!args) return "Usage: /model <model>. Press Tab to list models."
+        const provider = findModelProvider(args)
+        if (!provider) return `Unknown model '${args}'.`
+        return resolveLLMConfig({ ...theme.llm, provider, model: args }).error
+    },
+    run: (args, { theme, setLLM }) => {
+        setLLM({ ...theme.llm, provider: findModelProvider(args)!, model: args })
+        return `Model set to ${args}.`
+    },
+})
+
+registerSlashCommand({
+    name: "temp",
+    args: "<temperature>",
+    description: "Set the sampling temperature",
+    validate: (args, { theme }) => {
+        if (!args || isNaN(Number(args))) return "Usage: /temp <temperature>, e.g. /temp 0.3"
+        return resolveLLMConfig({ ...theme.llm, temperature: Number(args) }).error
+    },
+    run: (args, { theme, setLLM }) => {
+        setLLM({ ...theme.llm, temperature: Number(args) })
+        return `Temperature set to ${Number(args)}.`
+    },
+})
+
+registerSlashCommand({
+    name: "system",
+    args: "[prompt]",
+    description: "Show or replace the system prompt",
+    run: (args, { theme, setSystemPrompt }) => {
+        if (!args) return theme.systemPrompt ? `System prompt: ${theme.systemPrompt}` : "No system prompt is set."
+        setSystemPrompt(args)
+        return "System prompt updated."
+    },
+})
+
+// `/export md all` includes every branch
+const parseExportArgs = (args: string) => {
+    const [format, scope, ...rest] = args.split(/\s+/)
+    return { format: findExportFormat(format ?? ""), allBranches: scope === "all", isValid: (scope === undefined || scope === "all") && rest.length === 0 }
+}
+
+registerSlashCommand({
+    name: "export",
+    args: "<format> [all]",
+    description: `Download the chat (${EXPORT_FORMATS.map((format) => format.extension).join(", ")}); "all" includes every branch`,
+    complete: () => EXPORT_FORMATS.map((format) => format.extension),
+    validate: (args) => {
+        const { format, isValid } = parseExportArgs(args)
+        return format && isValid ? undefined : `Usage: /export <format> [all], format one of ${EXPORT_FORMATS.map((format) => format.extension).join(", ")}.`
+    },
+    run: (args, { exportChat }) => {
+        const { format, allBranches } = parseExportArgs(args)
+        exportChat(format!.id, allBranches)
+    },
+})
+
+registerSlashCommand({
+    name: "theme",
+    args: "<theme>",
+    description: "Restyle this terminal with another theme",
+    complete: ({ themes }) => themes.map((theme) => theme.id),
+    validate: (args, { themes, setTheme }) => {
+        if (!setTheme) return "This terminal cannot change theme."
+        if (!args) return "Usage: /theme <theme>. Press Tab to list themes."
+        return themes.some((theme) => theme.id === args) ? undefined : `Unknown theme '${args}'.`
+    },
+    run: (args, { themes, setTheme }) => {
+        setTheme!(args)
+        return `Switched to ${themes.find((theme) => theme.id === args)!.name}.`
+    },
+})
+
+registerSlashCommand({
+    name: "retry",
+    description: "Ask for the last reply again",
+    validate: (_, { messages }) => (messages.some((message) => message.role === "user") ? undefined : "Nothing to retry yet."),
+    run: (_, { retry }) => retry(),
+})
@@ -0,0 +1,179 @@
+// Small syntax highlighter for code blocks in messages: splits code into keyword, string, number and
+// comment tokens with per-language rules. It only colors tokens, so unknown languages still read fine.
+
+export type CodeTokenType = "plain" | "keyword" | "string" | "number" | "comment"
+
+export interface CodeToken {
+    type: CodeTokenType
+    text: string
+}
+
+interface LanguageRules {
+    keywords: string[]
+    lineComments: string[]
+    blockComment?: [string, string]
+    // Quote characters; a quote written three times (Python's """) is also recognised
+    quotes: string[]
+}
+
+const C_LIKE = { lineComments: ["//"], blockComment: ["/*", "*/"] as [string, string], quotes: ['"', "'"] }
+
+const LANGUAGES: Record<string, LanguageRules> = {
+    javascript: {
+        ...C_LIKE,
+        quotes: ['"', "'", "`"],
+        keywords: "async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while yield".split(" "),
+    },
+    typescript: {
+        ...C_LIKE,
+        quotes: ['"', "'", "`"],
+        keywords: "abstract as async await boolean break case catch class const continue declare default delete do else enum export extends false finally for from function if implements import in infer instanceof interface keyof let namespace never new null number of private protected public readonly return satisfies static string super switch this throw true try type typeof undefined unknown var void while yield".split(" "),
+    },
+    python: {
+        lineComments: ["#"],
+        quotes: ['"', "'"],
+        keywords: "and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield".split(" "),
+    },
+    bash: {
+        lineComments: ["#"],
+        quotes: ['"', "'"],
+        keywords: "case cd do done echo elif else esac exit export fi for function if in local read return set shift source then unset until while".split(" "),
+    },
+    json: { lineComments: [], quotes: ['"'], keywords: ["true", "false", "null"] },
+    rust: {
+        ...C_LIKE,
+        quotes: ['"'],
+        keywords: "as async await break const continue crate else enum false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while".split(" "),
+    },
+    go: {
+        ...C_LIKE,
+        quotes: ['"', "'", "`"],
+        keywords: "break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var".split(" "),
+    },
+    java: {
+        ...C_LIKE,
+        keywords: "abstract boolean break byte case catch char class const continue default do double else enum extends false final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true try void volatile while".split(" "),
+    },
+    c: {
+        ...C_LIKE,
+        keywords: "auto bool break case char class const continue default delete do double else enum extern false float for if include inline int long namespace new nullptr private protected public return short signed sizeof static struct switch template this true typedef union unsigned using virtual void volatile while".split(" "),
+    },
+    sql: {
+        lineComments: ["--"],
+        blockComment: ["/*", "*/"],
+        quotes: ["'", '"'],
+        keywords: "add all alter and as asc between by case create delete desc distinct drop else end exists from group having in index inner insert into is join key left like limit not null on or order outer primary references right select set table then union update values when where with".split(" "),
+    },
+    css: { lineComments: [], blockComment: ["/*", "*/"], quotes: ['"', "'"], keywords: ["important"] },
+}
+
+const ALIASES: Record<string, string> = {
+    js: "javascript",
+    jsx: "javascript",
+    mjs: "javascript",
+    ts: "typescript",
+    tsx: "typescript",
+    py: "python",
+    sh: "bash",
+    shell: "bash",
+    zsh: "bash",
+    console: "bash",
+    rs: "rust",
+    golang: "go",
+    kotlin: "java",
+    cpp: "c",
+    "c++": "c",
+    h: "c",
+    csharp: "c",
+    cs: "c",
+    scss: "css",
+}
+
+const resolveLanguage = (language: string) => ALIASES[language.toLowerCase()] ?? language.toLowerCase()
+
+// Whether code blocks in `language` get highlighted
+export const isKnownLanguage = (language: string) => resolveLanguage(language) in LANGUAGES
+
+// SQL keywords are case-insensitive; every other language's are not
+const CASE_INSENSITIVE = new Set(["sql"])
+
+// Sticky, so they match at a given position without copying the rest of the code
+const NUMBER = /0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?/iy
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y
+
+const matchAt = (pattern: RegExp, code: string, index: number) => {
+    pattern.lastIndex = index
+    return pattern.exec(code)?.[0]
+}
+
+// Position just past the string starting at `start`, honouring backslash escapes; unclosed strings run
+// to the end of the line (or of the code, for triple quotes) so a streaming block still highlights
+const endOfString = (code: string, start: number, delimiter: string) => {
+    let i = start + delimiter.length
+    while (i < code.length) {
+        if (code[i] === "\\") i += 2
+        else if (code.startsWith(delimiter, i)) return i + delimiter.length
+        else if (code[i] === "\n" && delimiter.length === 1 && delimiter !== "`") return i
+        else i++
+    }
+    return code.length
+}
+
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+    const id = resolveLanguage(language)
+    const rules = LANGUAGES[id]
+    if (!rules) return [{ type: "plain", text: code }]
+
+    const lowerCaseKeywords = CASE_INSENSITIVE.has(id)
+    const keywords = new Set(rules.keywords)
+    const tokens: CodeToken[] = []
+    const push = (type: CodeTokenType, text: string) => {
+        const last = tokens[tokens.length - 1]
+        if (last?.type === type) last.text += text
+        else tokens.push({ type, text })
+    }
+
+    let i = 0
+    while (i < code.length) {
+        const lineComment = rules.lineComments.find((marker) => code.startsWith(marker, i))
+        if (lineComment !== undefined) {
+            const end = code.indexOf("\n", i)
+            const stop = end === -1 ? code.length : end
+            push("comment", code.slice(i, stop))
+            i = stop
+            continue
+        }
+        if (rules.blockComment && code.startsWith(rules.blockComment[0], i)) {
+            const end = code.indexOf(rules.blockComment[1], i + rules.blockComment[0].length)
+            const stop = end === -1 ? code.length : end + rules.blockComment[1].length
+            push("comment", code.slice(i, stop))
+            i = stop
+            continue
+        }
+        const quote = rules.quotes.find((q) => code[i] === q)
+        if (quote !== undefined) {
+            const delimiter = code.startsWith(quote.repeat(3), i) ? quote.repeat(3) : quote
+            const stop = endOfString(code, i, delimiter)
+            push("string", code.slice(i, stop))
+            i = stop
+            continue
+        }
+        // Digits inside identifiers such as `x2` are not numbers
+        const previous = code[i - 1]
+        const number = previous && /[\w$]/.test(previous) ? undefined : matchAt(NUMBER, code, i)
+        if (number) {
+            push("number", number)
+            i += number.length
+            continue
+        }
+        const word = matchAt(IDENTIFIER, code, i)
+        if (word) {
+            push(keywords.has(lowerCaseKeywords ? word.toLowerCase() : word) ? "keyword" : "plain", word)
+            i += word.length
+            continue
+        }
+        push("plain", code[i])
+        i++
+    }
+    return tokens
+}
@@ -1,14 +1,20 @@
 // Theme configurations for different terminal types/styles
 
 import { TerminalLLM } from "@/types/terminal-types"
+import type { BannerArt } from "@/lib/banner"
 
 export type TerminalTheme = {
     id: string
     name: string
+    // Shown under the theme's launcher button
+    description: string
+    // First message of a new terminal, spoken by the theme's model
+    greeting: string
     styles: TerminalStyle
     senderName: string
     userSenderName: string
-    asciiArt: string
+    // Banner above the first message: raw art, or text rendered with a figlet font
+    asciiArt: BannerArt
     llm: TerminalLLM
     systemPrompt: string
 }
@@ -41,95 +47,178 @@ export type TerminalStyle = {
 export const defaultTheme: TerminalTheme = {
     id: "default",
     name: "TERMINAL_v2.3",
-    background: "bg-[#f0ede6]",
-    border: "border-[#c8c3b8]",
-    headerBackground: "bg-[#e5e1d8]",
-    headerBorder: "border-[#c8c3b8]",
-    text: "text-[#5a5751]",
-    headerText: "text-[#5a5751]",
-    dotColor: "bg-[#d9b38c]",
-    inputBackground: "bg-[#f0ede6]",
-    inputBorder: "border-[#c8c3b8]",
-    inputText: "text-[#5a5751]",
-    inputPlaceholder: "placeholder:text-[#a39e94]",
-    buttonBackground: "bg-[#d9b38c]",
-    buttonHover: "hover:bg-[#c9a37c]",
-    buttonText: "text-[#3d3b36]",
-    messageBackground: "bg-[#e5e1d8]",
-    messageText: "text-[#5a5751]",
-    userMessageBackground: "bg-[#d9d4c9]",
-    userMessageText: "text-[#3d3b36]",
-    messageBorder: "border-[#d9b38c]",
-    timestampText: "text-[#8a857d]",
-    resizeHandleBorder: "border-[#8a857d]",
-    gridColor: "rgba(90, 87, 81, 0.1)",
+    description: "Standard terminal interface",
+    greeting: "Welcome to the terminal. How can I assist you today?",
+    styles: {
+        background: "bg-[#f0ede6]",
+        border: "border-[#c8c3b8]",
+        headerBackground: "bg-[#e5e1d8]",
+        headerBorder: "border-[#c8c3b8]",
+        text: "text-[#5a5751]",
+        headerText: "text-[#5a5751]",
+        dotColor: "bg-[#d9b38c]",
+        inputBackground: "bg-[#f0ede6]",
+        inputBorder: "border-[#c8c3b8]",
+        inputText: "text-[#5a5751]",
+        inputPlaceholder: "placeholder:text-[#a39e94]",
+        buttonBackground: "bg-[#d9b38c]",
+        buttonHover: "hover:bg-[#c9a37c]",
+        buttonText: "text-[#3d3b36]",
+        messageBackground: "bg-[#e5e1d8]",
+        messageText: "text-[#5a5751]",
+        userMessageBackground: "bg-[#d9d4c9]",
+        userMessageText: "text-[#3d3b36]",
+        messageBorder: "border-[#d9b38c]",
+        timestampText: "text-[#8a857d]",
+        resizeHandleBorder: "border-[#8a857d]",
+        gridColor: "rgba(90, 87, 81, 0.1)",
+    },
     senderName: "SYSTEM",
     userSenderName: "USER",
+    asciiArt: { text: "TERMINAL" },
+    systemPrompt:
+        "You are a helpful assistant running inside a retro computer terminal. Keep answers concise and readable as plain text.",
+    llm: {
+        id: "default-llm",
+        provider: "openai",
+        model: "gpt-4o",
+        temperature: 0.7,
+        maxTokens: 1024,
+    },
 }
 
 export const npcTheme: TerminalTheme = {
     id: "npc",
     name: "NPC_TERMINAL",
-    background: "bg-[#0a2010]",
-    border: "border-[#2a5a30]",
-    headerBackground: "bg-[#0f3a1a]",
-    headerBorder: "border-[#2a5a30]",
-    text: "text-[#a3ffb0]",
-    headerText: "text-[#a3ffb0]",
-    dotColor: "bg-[#5aff70]",
-    inputBackground: "bg-[#0a2010]",
-    inputBorder: "border-[#2a5a30]",
-    inputText: "text-[#a3ffb0]",
-    inputPlaceholder: "placeholder:text-[#5aff70] placeholder:opacity-50",
-    buttonBackground: "bg-[#1a4a25]",
-    buttonHover: "hover:bg-[#2a5a30]",
-    buttonText: "text-[#a3ffb0]",
-    messageBackground: "bg-[#0f3a1a]",
-    messageText: "text-[#a3ffb0]",
-    userMessageBackground: "bg-[#1a4a25]",
-    userMessageText: "text-[#d0ffd8]",
-    messageBorder: "border-[#5aff70]",
-    timestampText: "text-[#5aff70] opacity-70",
-    resizeHandleBorder: "border-[#5aff70]",
-    gridColor: "rgba(90, 255, 112, 0.1)",
+    description: "Game dialogue interface",
+    greeting: "Greetings, traveler. How may I assist you on your quest today?",
+    styles: {
+        background: "bg-[#0a2010]",
+        border: "border-[#2a5a30]",
+        headerBackground: "bg-[#0f3a1a]",
+        headerBorder: "border-[#2a5a30]",
+        text: "text-[#a3ffb0]",
+        headerText: "text-[#a3ffb0]",
+        dotColor: "bg-[#5aff70]",
+        inputBackground: "bg-[#0a2010]",
+        inputBorder: "border-[#2a5a30]",
+        inputText: "text-[#a3ffb0]",
+        inputPlaceholder: "placeholder:text-[#5aff70] placeholder:opacity-50",
+        buttonBackground: "bg-[#1a4a25]",
+        buttonHover: "hover:bg-[#2a5a30]",
+        buttonText: "text-[#a3ffb0]",
+        messageBackground: "bg-[#0f3a1a]",
+        messageText: "text-[#a3ffb0]",
+        userMessageBackground: "bg-[#1a4a25]",
+        userMessageText: "text-[#d0ffd8]",
+        messageBorder: "border-[#5aff70]",
+        timestampText: "text-[#5aff70] opacity-70",
+        resizeHandleBorder: "border-[#5aff70]",
+        gridColor: "rgba(90, 255, 112, 0.1)",
+    },
     senderName: "NPC",
     userSenderName: "PLAYER",
+    asciiArt: { text: "NPC" },
+    systemPrompt:
+        "You are a non-player character in a fantasy role-playing game: a villager who has lived in the same village for many years. Stay in character, speak like a medieval townsperson, share local history, rumors and quests, and address the user as a traveler.",
+    llm: {
+        id: "npc-llm",
+        provider: "anthropic",
+        model: "claude-3-opus-20240229",
+        temperature: 0.9,
+        maxTokens: 1024,
+    },
 }
 
 export const voidTheme: TerminalTheme = {
     id: "void",
     name: "VOID_TERMINAL",
-    background: "bg-[#120821]",
-    border: "border-[#4a2a7a]",
-    headerBackground: "bg-[#1d0e35]",
-    headerBorder: "border-[#4a2a7a]",
-    text: "text-[#c9b8e0]",
-    headerText: "text-[#c9b8e0]",
-    dotColor: "bg-[#b56cff]",
-    inputBackground: "bg-[#120821]",
-    inputBorder: "border-[#4a2a7a]",
-    inputText: "text-[#c9b8e0]",
-    inputPlaceholder: "placeholder:text-[#b56cff] placeholder:opacity-50",
-    buttonBackground: "bg-[#2d1b4a]",
-    buttonHover: "hover:bg-[#3d2b5a]",
-    buttonText: "text-[#c9b8e0]",
-    messageBackground: "bg-[#1d0e35]",
-    messageText: "text-[#c9b8e0]",
-    userMessageBackground: "bg-[#2d1b4a]",
-    userMessageText: "text-[#e2d8f0]",
-    messageBorder: "border-[#b56cff]",
-    timestampText: "text-[#b56cff] opacity-70",
-    resizeHandleBorder: "border-[#b56cff]",
-    gridColor: "rgba(181, 108, 255, 0.1)",
+    description: "Cosmic void interface",
+    greeting: "You have connected to the void. What secrets do you seek in the darkness?",
+    styles: {
+        background: "bg-[#120821]",
+        border: "border-[#4a2a7a]",
+        headerBackground: "bg-[#1d0e35]",
+        headerBorder: "border-[#4a2a7a]",
+        text: "text-[#c9b8e0]",
+        headerText: "text-[#c9b8e0]",
+        dotColor: "bg-[#b56cff]",
+        inputBackground: "bg-[#120821]",
+        inputBorder: "border-[#4a2a7a]",
+        inputText: "text-[#c9b8e0]",
+        inputPlaceholder: "placeholder:text-[#b56cff] placeholder:opacity-50",
+        buttonBackground: "bg-[#2d1b4a]",
+        buttonHover: "hover:bg-[#3d2b5a]",
+        buttonText: "text-[#c9b8e0]",
+        messageBackground: "bg-[#1d0e35]",
+        messageText: "text-[#c9b8e0]",
+        userMessageBackground: "bg-[#2d1b4a]",
+        userMessageText: "text-[#e2d8f0]",
+        messageBorder: "border-[#b56cff]",
+        timestampText: "text-[#b56cff] opacity-70",
+        resizeHandleBorder: "border-[#b56cff]",
+        gridColor: "rgba(181, 108, 255, 0.1)",
+    },
     senderName: "VOID",
     userSenderName: "SEEKER",
+    asciiArt: { text: "VOID", font: "segment" },
+    systemPrompt:
+        "You are the Void, an ancient cosmic entity speaking from the darkness between the stars. Answer cryptically and poetically in a few short sentences, dwelling on time, infinity and the smallness of mortal concerns. Never break character.",
+    llm: {
+        id: "void-llm",
+        provider: "anthropic",
+        model: "claude-3-5-sonnet-20241022",
+        temperature: 1,
+        maxTokens: 1024,
+    },
 }
 
-export const getThemeById = (id: string): TerminalTheme => {
-    const themes: Record<string, TerminalTheme> = {
-        npc: npcTheme,
-        void: voidTheme
-    }
-    return themes[id] || defaultTheme
+export const oracleTheme: TerminalTheme = {
+    id: "oracle",
+    name: "ORACLE_TERMINAL",
+    description: "Gemini oracle interface",
+    greeting: "The Oracle is listening. What would you foresee, pilgrim?",
+    styles: {
+        background: "bg-[#0a1a2a]",
+        border: "border-[#2a4a6a]",
+        headerBackground: "bg-[#0f2a40]",
+        headerBorder: "border-[#2a4a6a]",
+        text: "text-[#b8d8f0]",
+        headerText: "text-[#b8d8f0]",
+        dotColor: "bg-[#5ab8ff]",
+        inputBackground: "bg-[#0a1a2a]",
+        inputBorder: "border-[#2a4a6a]",
+        inputText: "text-[#b8d8f0]",
+        inputPlaceholder: "placeholder:text-[#5ab8ff] placeholder:opacity-50",
+        buttonBackground: "bg-[#1a3a55]",
+        buttonHover: "hover:bg-[#2a4a6a]",
+        buttonText: "text-[#b8d8f0]",
+        messageBackground: "bg-[#0f2a40]",
+        messageText: "text-[#b8d8f0]",
+        userMessageBackground: "bg-[#1a3a55]",
+        userMessageText: "text-[#dceeff]",
+        messageBorder: "border-[#5ab8ff]",
+        timestampText: "text-[#5ab8ff] opacity-70",
+        resizeHandleBorder: "border-[#5ab8ff]",
+        gridColor: "rgba(90, 184, 255, 0.1)",
+    },
+    senderName: "ORACLE",
+    userSenderName: "PILGRIM",
+    asciiArt: { text: "ORACLE", font: "segment" },
+    systemPrompt:
+        "You are the Oracle, a calm and far-seeing advisor consulted by pilgrims. Give clear, thoughtful answers in a measured, slightly formal voice, and end with a short piece of foresight.",
+    llm: {
+        id: "oracle-llm",
+        provider: "google",
+        model: "gemini-1.5-flash",
+        temperature: 0.8,
+        maxTokens: 1024,
+    },
 }
 
+// Themes the desktop can spawn terminals from, in launcher order
+export const builtInThemes: TerminalTheme[] = [defaultTheme, npcTheme, voidTheme, oracleTheme]
+
+// Unknown ids fall back to the default theme
+export const getThemeById = (id: string, themes: TerminalTheme[] = builtInThemes): TerminalTheme =>
+    themes.find((theme) => theme.id === id) ?? defaultTheme
@@ -0,0 +1,38 @@
+// CSS for theme classes that only exist at runtime. Tailwind generates arbitrary-value classes like
+// `bg-[#f0ede6]` by scanning the source, so colors picked in the theme editor or imported from a
+// theme pack have no rules until these are injected.
+
+import type { TerminalTheme } from "@/lib/terminal-themes"
+
+// Class prefix -> rule builder, for the utilities the theme style keys use
+const utilities: [prefix: string, rule: (selector: string, value: string) => string][] = [
+    ["placeholder:text-", (selector, value) => `${selector}::placeholder{color:${value}}`],
+    ["hover:bg-", (selector, value) => `${selector}:hover{background-color:${value}}`],
+    ["bg-", (selector, value) => `${selector}{background-color:${value}}`],
+    ["text-", (selector, value) => `${selector}{color:${value}}`],
+    ["border-", (selector, value) => `${selector}{border-color:${value}}`],
+]
+
+// Backslash-escape everything that is not valid in a CSS identifier, as Tailwind does
+const escapeClassName = (className: string) => className.replace(/[^\w-]/g, (char) => `\\${char}`)
+
+const classRule = (className: string) => {
+    for (const [prefix, rule] of utilities) {
+        const value = className.startsWith(prefix) && className.slice(prefix.length).match(/^\[([^\]\s;{}<>]+)\]$/)?.[1]
+        if (value) return rule(`.${escapeClassName(className)}`, value.replace(/_/g, " "))
+    }
+    return null
+}
+
+export const buildThemeCSS = (themes: TerminalTheme[]) => {
+    const rules = new Set<string>()
+    for (const theme of themes) {
+        for (const value of Object.values(theme.styles)) {
+            for (const className of String(value).split(/\s+/)) {
+                const rule = classRule(className)
+                if (rule) rules.add(rule)
+            }
+        }
+    }
+    return [...rules].join("\n")
+}
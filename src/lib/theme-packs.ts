@@ -0,0 +1,68 @@
+// Theme packs: JSON files holding user-made terminal themes, written by the theme editor and read back in
+
+import { builtInThemes, type TerminalTheme } from "@/lib/terminal-themes"
+import { validateTheme } from "@/lib/theme-schema"
+import { downloadFile, isRecord } from "@/lib/utils"
+
+export const THEME_PACK_FORMAT = "terminal-theme-pack"
+
+// Packs are small; anything bigger is almost certainly the wrong file
+const MAX_PACK_BYTES = 1024 * 1024
+
+export interface ThemePack {
+    format: typeof THEME_PACK_FORMAT
+    version: 1
+    exportedAt: string
+    themes: TerminalTheme[]
+}
+
+type ThemePackResult = { themes: TerminalTheme[]; error?: undefined } | { themes?: undefined; error: string }
+
+// Lowercase slug of the name that no other theme uses, e.g. "Ship AI" -> "ship-ai", "ship-ai-2"
+export const createThemeId = (name: string, themes: TerminalTheme[]) => {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "theme"
+    let id = base
+    for (let n = 2; themes.some((theme) => theme.id === id); n++) id = `${base}-${n}`
+    return id
+}
+
+export const formatThemePack = (themes: TerminalTheme[]) =>
+    JSON.stringify({ format: THEME_PACK_FORMAT, version: 1, exportedAt: new Date().toISOString(), themes } satisfies ThemePack, null, 2)
+
+export const downloadThemePack = (themes: TerminalTheme[], name = "terminal-themes") =>
+    downloadFile(formatThemePack(themes), name, "json", "application/json")
+
+// Built-in themes cannot be replaced, so a pack theme with a built-in id is imported under a new id
+export const validateThemePack = (data: unknown): ThemePackResult => {
+    if (!isRecord(data) || data.format !== THEME_PACK_FORMAT) {
+        return { error: "File is not a terminal theme pack." }
+    }
+    if (!Array.isArray(data.themes) || data.themes.length === 0) {
+        return { error: "Theme pack has no themes." }
+    }
+    const themes: TerminalTheme[] = []
+    for (const [index, value] of data.themes.entries()) {
+        const { theme, error } = validateTheme(value)
+        if (error !== undefined) return { error: `Theme ${index + 1} of the pack is invalid. ${error}` }
+        const taken = [...builtInThemes, ...themes]
+        themes.push(taken.some((t) => t.id === theme.id) ? { ...theme, id: createThemeId(theme.name, taken) } : theme)
+    }
+    return { themes }
+}
+
+export const parseThemePack = (raw: string): ThemePackResult => {
+    let data: unknown
+    try {
+        data = JSON.parse(raw)
+    } catch {
+        return { error: "File is not valid JSON." }
+    }
+    return validateThemePack(data)
+}
+
+export const readThemePack = async (file: File): Promise<ThemePackResult> => {
+    if (file.size > MAX_PACK_BYTES) {
+        return { error: `${file.name} is too large to be a theme pack.` }
+    }
+    return parseThemePack(await file.text())
+}
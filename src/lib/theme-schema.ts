@@ -0,0 +1,88 @@
+// Runtime schema for themes that come from outside the source tree: the theme editor, theme packs
+// and saved desktops. Missing fields take the default theme's values; fields of the wrong type and
+// LLM configs the chat route would reject are errors, so a bad theme never reaches a window.
+
+import { defaultTheme, type TerminalStyle, type TerminalTheme } from "@/lib/terminal-themes"
+import { resolveLLMConfig } from "@/lib/llm-config"
+import { BANNER_FONTS, type BannerSpec } from "@/lib/banner"
+import { isRecord } from "@/lib/utils"
+
+type ThemeResult = { theme: TerminalTheme; error?: undefined } | { theme?: undefined; error: string }
+
+// Same rule as session ids, since theme ids end up in window ids and exported file names
+const THEME_ID_PATTERN = /^[\w-]{1,64}$/
+
+const TEXT_FIELDS = ["description", "greeting", "senderName", "userSenderName", "systemPrompt"] as const
+
+const STYLE_KEYS = Object.keys(defaultTheme.styles) as (keyof TerminalStyle)[]
+
+// Checks a theme and fills in defaults; the error lists every problem found
+export const validateTheme = (value: unknown): ThemeResult => {
+    if (!isRecord(value)) {
+        return { error: "Theme must be an object." }
+    }
+
+    const errors: string[] = []
+    if (typeof value.id !== "string" || !THEME_ID_PATTERN.test(value.id)) {
+        errors.push("id must be 1-64 letters, digits, '-' or '_'")
+    }
+    if (typeof value.name !== "string" || !value.name.trim()) {
+        errors.push("name must be a non-empty string")
+    }
+    for (const field of TEXT_FIELDS) {
+        if (value[field] !== undefined && typeof value[field] !== "string") errors.push(`${field} must be a string`)
+    }
+
+    const asciiArt = value.asciiArt
+    if (isRecord(asciiArt)) {
+        if (typeof asciiArt.text !== "string") errors.push("asciiArt.text must be a string")
+        if (asciiArt.font !== undefined && !BANNER_FONTS.some((font) => font === asciiArt.font)) {
+            errors.push(`asciiArt.font must be one of ${BANNER_FONTS.join(", ")}`)
+        }
+    } else if (asciiArt !== undefined && typeof asciiArt !== "string") {
+        errors.push("asciiArt must be a string or a { text, font } banner")
+    }
+
+    const styles = value.styles ?? {}
+    if (!isRecord(styles)) {
+        errors.push("styles must be an object")
+    } else {
+        for (const key of STYLE_KEYS) {
+            if (styles[key] !== undefined && typeof styles[key] !== "string") errors.push(`styles.${key} must be a string`)
+        }
+    }
+
+    let llm = defaultTheme.llm
+    if (value.llm !== undefined && !isRecord(value.llm)) {
+        errors.push("llm must be an object")
+    } else if (value.llm !== undefined) {
+        const { config, error } = resolveLLMConfig(value.llm)
+        if (error !== undefined) errors.push(`llm: ${error.replace(/\.$/, "")}`)
+        else llm = config
+    }
+
+    if (errors.length > 0) {
+        const label = typeof value.id === "string" && value.id ? `Theme '${value.id}'` : "Theme"
+        return { error: `${label}: ${errors.join("; ")}.` }
+    }
+
+    const text = (field: (typeof TEXT_FIELDS)[number]) => (value[field] as string | undefined) ?? defaultTheme[field]
+    return {
+        theme: {
+            id: value.id as string,
+            name: (value.name as string).trim(),
+            description: text("description"),
+            greeting: text("greeting"),
+            senderName: text("senderName"),
+            userSenderName: text("userSenderName"),
+            asciiArt: isRecord(asciiArt)
+                ? { text: asciiArt.text as string, ...(asciiArt.font !== undefined && { font: asciiArt.font as BannerSpec["font"] }) }
+                : ((asciiArt as string | undefined) ?? defaultTheme.asciiArt),
+            systemPrompt: text("systemPrompt"),
+            llm,
+            styles: Object.fromEntries(
+                STYLE_KEYS.map((key) => [key, (styles as Record<string, unknown>)[key] ?? defaultTheme.styles[key]]),
+            ) as TerminalStyle,
+        },
+    }
+}
@@ -0,0 +1,34 @@
+// Group chat turn-taking policies, shared by the group chat window and the orchestrator
+
+export type TurnPolicy = "round-robin" | "moderator" | "addressed" | "free-for-all"
+
+export const TURN_POLICIES: { id: TurnPolicy; label: string; description: string }[] = [
+    { id: "round-robin", label: "Round-robin", description: "Every participant replies once, in a fixed order" },
+    { id: "moderator", label: "Moderator", description: "A moderator model picks who speaks next" },
+    { id: "addressed", label: "Addressed", description: "Only participants mentioned with @name reply" },
+    { id: "free-for-all", label: "Free-for-all", description: "Participants answer each other for several rounds" },
+]
+
+// Upper bound on free-for-all rounds and moderator-picked turns, to keep cost predictable
+export const MAX_GROUP_CHAT_ROUNDS = 5
+
+export const isTurnPolicy = (value: unknown): value is TurnPolicy =>
+    TURN_POLICIES.some((policy) => policy.id === value)
+
+export const clampRounds = (rounds: unknown, fallback = 1) =>
+    Math.min(MAX_GROUP_CHAT_ROUNDS, Math.max(1, Number.isInteger(rounds) ? (rounds as number) : fallback))
+
+// Participant ids mentioned as @id or @senderName, in order of first mention
+export const parseMentions = (content: string, participants: { id: string; senderName: string }[]): string[] => {
+    const mentioned: string[] = []
+    for (const [, handle] of content.matchAll(/@([\w-]+)/g)) {
+        const lowerHandle = handle.toLowerCase()
+        const participant = participants.find(
+            (p) => p.id.toLowerCase() === lowerHandle || p.senderName.toLowerCase() === lowerHandle,
+        )
+        if (participant && !mentioned.includes(participant.id)) {
+            mentioned.push(participant.id)
+        }
+    }
+    return mentioned
+}
@@ -0,0 +1,167 @@
+// Window-manager store for the desktop: every window is an entry in one list, and opening, minimizing,
+// focus (z-index) and fullscreen are reducer actions over that list
+
+import type { TerminalTheme } from "@/lib/terminal-themes"
+import { addToInputHistory } from "@/lib/line-editor"
+import type { DesktopWindow, TerminalMessage } from "@/types/terminal-types"
+
+export interface WindowManagerState {
+    windows: DesktopWindow[]
+    nextZIndex: number
+    // Id of the window currently shown fullscreen
+    activeFullscreen: string | null
+}
+
+// What a caller decides about a new window; the store assigns its id, instance number and z-index
+export type NewWindow = Pick<DesktopWindow, "kind" | "themeId" | "messages" | "leafId" | "position" | "createdAt" | "participants">
+
+export type WindowManagerAction =
+    | { type: "spawn"; window: NewWindow }
+    | { type: "restore"; windows: DesktopWindow[]; nextZIndex: number }
+    | { type: "open"; id: string }
+    | { type: "minimize"; id: string; position?: { x: number; y: number } }
+    | { type: "destroy"; id: string }
+    | { type: "focus"; id: string }
+    | { type: "fullscreen"; id: string; isFullscreen: boolean }
+    | { type: "cycleFullscreen"; direction: "next" | "prev" }
+    | { type: "saveState"; id: string; messages: TerminalMessage[]; leafId?: string | null; scrollPosition: number }
+    | { type: "setParticipants"; id: string; participants: string[] }
+    | { type: "setTheme"; id: string; themeId: string }
+    | { type: "addInputHistory"; id: string; entry: string }
+
+export const initialWindowManagerState: WindowManagerState = {
+    windows: [],
+    nextZIndex: 20,
+    activeFullscreen: null,
+}
+
+// Lowest instance number no terminal of the theme is using, so window titles stay unique
+const isInstanceTaken = (windows: DesktopWindow[], themeId: string, instance: number) =>
+    windows.some((w) => w.kind === "terminal" && w.themeId === themeId && w.instance === instance)
+
+// First window of a theme takes the theme id, later ones `<themeId>-2`, `<themeId>-3`, ...
+const createWindowId = (windows: DesktopWindow[], { kind, themeId }: Pick<DesktopWindow, "kind" | "themeId">) => {
+    const base = kind === "terminal" ? themeId : kind
+    const getId = (instance: number) => (instance === 1 ? base : `${base}-${instance}`)
+    let instance = 1
+    while (windows.some((w) => w.id === getId(instance)) || (kind === "terminal" && isInstanceTaken(windows, themeId, instance))) instance++
+    return { id: getId(instance), instance }
+}
+
+// Extra instances are told apart by number, in the window title and as group chat speakers
+export const getWindowTitle = (window: DesktopWindow, theme: TerminalTheme) => {
+    const name = window.kind === "group" ? "GROUP_CHAT" : window.kind === "v2" ? "TERMINAL_V2" : theme.name
+    return window.instance > 1 ? `${name} #${window.instance}` : name
+}
+
+// The theme a terminal window is drawn with
+export const getWindowTheme = (window: DesktopWindow, theme: TerminalTheme): TerminalTheme =>
+    window.instance > 1 ? { ...theme, name: getWindowTitle(window, theme) } : theme
+
+// The theme a terminal window speaks as in a group chat; its id is the window id, which the chat uses as agentId
+export const getParticipantTheme = (window: DesktopWindow, theme: TerminalTheme): TerminalTheme => ({
+    ...getWindowTheme(window, theme),
+    id: window.id,
+    ...(window.instance > 1 && { senderName: `${theme.senderName}-${window.instance}` }),
+})
+
+const updateWindow = (state: WindowManagerState, id: string, update: (window: DesktopWindow) => DesktopWindow): WindowManagerState => ({
+    ...state,
+    windows: state.windows.map((w) => (w.id === id ? update(w) : w)),
+})
+
+const bringToFront = (state: WindowManagerState, id: string): WindowManagerState => ({
+    ...updateWindow(state, id, (w) => ({ ...w, zIndex: state.nextZIndex })),
+    nextZIndex: state.nextZIndex + 1,
+})
+
+export const windowManagerReducer = (state: WindowManagerState, action: WindowManagerAction): WindowManagerState => {
+    switch (action.type) {
+        case "spawn": {
+            const window: DesktopWindow = {
+                ...action.window,
+                ...createWindowId(state.windows, action.window),
+                isOpen: true,
+                isToolbarMinimized: false,
+                scrollPosition: 0,
+                zIndex: state.nextZIndex,
+            }
+            return { ...state, windows: [...state.windows, window], nextZIndex: state.nextZIndex + 1 }
+        }
+
+        case "restore":
+            return { windows: action.windows, nextZIndex: action.nextZIndex, activeFullscreen: null }
+
+        case "open":
+            return bringToFront(updateWindow(state, action.id, (w) => ({ ...w, isOpen: true, isToolbarMinimized: false })), action.id)
+
+        // Minimized windows unmount, so remember where to bring them back
+        case "minimize":
+            return {
+                ...updateWindow(state, action.id, (w) => ({
+                    ...w,
+                    isOpen: false,
+                    isToolbarMinimized: true,
+                    position: action.position ?? w.position,
+                })),
+                activeFullscreen: state.activeFullscreen === action.id ? null : state.activeFullscreen,
+            }
+
+        // Permanently close a window and drop it from any group chat
+        case "destroy":
+            return {
+                ...state,
+                windows: state.windows
+                    .filter((w) => w.id !== action.id)
+                    .map((w) => (w.participants?.includes(action.id) ? { ...w, participants: w.participants.filter((id) => id !== action.id) } : w)),
+                activeFullscreen: state.activeFullscreen === action.id ? null : state.activeFullscreen,
+            }
+
+        case "focus":
+            return bringToFront(state, action.id)
+
+        case "fullscreen":
+            if (action.isFullscreen) {
+                return { ...bringToFront(state, action.id), activeFullscreen: action.id }
+            }
+            return state.activeFullscreen === action.id ? { ...state, activeFullscreen: null } : state
+
+        // Step through open windows in the order they were created
+        case "cycleFullscreen": {
+            const openIds = state.windows
+                .filter((w) => w.isOpen)
+                .sort((a, b) => a.createdAt - b.createdAt)
+                .map((w) => w.id)
+            const currentIndex = state.activeFullscreen ? openIds.indexOf(state.activeFullscreen) : -1
+            if (currentIndex === -1 || openIds.length < 2) return state
+            const step = action.direction === "next" ? 1 : -1
+            const nextId = openIds[(currentIndex + step + openIds.length) % openIds.length]
+            return { ...bringToFront(state, nextId), activeFullscreen: nextId }
+        }
+
+        // Windows report their history when it changes and when they unmount; destroyed windows are ignored
+        case "saveState": {
+            const current = state.windows.find((w) => w.id === action.id)
+            if (!current || (current.messages === action.messages && current.leafId === action.leafId && current.scrollPosition === action.scrollPosition)) {
+                return state
+            }
+            return updateWindow(state, action.id, (w) => ({ ...w, messages: action.messages, leafId: action.leafId, scrollPosition: action.scrollPosition }))
+        }
+
+        case "setParticipants":
+            return updateWindow(state, action.id, (w) => ({ ...w, participants: action.participants }))
+
+        // Restyle a window in place; it keeps its id, and a terminal is renumbered among the theme's windows
+        case "setTheme":
+            return updateWindow(state, action.id, (w) => {
+                if (w.kind !== "terminal") return { ...w, themeId: action.themeId }
+                const others = state.windows.filter((other) => other.id !== w.id)
+                let instance = 1
+                while (isInstanceTaken(others, action.themeId, instance)) instance++
+                return { ...w, themeId: action.themeId, instance }
+            })
+
+        case "addInputHistory":
+            return updateWindow(state, action.id, (w) => ({ ...w, inputHistory: addToInputHistory(w.inputHistory ?? [], action.entry) }))
+    }
+}
@@ -1,33 +1,105 @@
-import type { TerminalStyle } from "@/lib/terminal-themes";
-
-
-export type TerminalTheme = {
-    id: string
-    name: string
-    styles: TerminalStyle
-    senderName: string
-    userSenderName: string
-    asciiArt: string
-    llm: TerminalLLM
-    systemPrompt: string
-}
+import type { TerminalTheme } from "@/lib/terminal-themes";
+import type { ChatStopReason } from "@/lib/chat-stream";
 
 export interface TerminalLLM {
     id: string;
-    provider: "openai" | "anthropic";
+    provider: "openai" | "anthropic" | "google" | "local";
     model: string;
     temperature: number;
     maxTokens: number;
+    // What happens to the oldest turns once a conversation outgrows its budget; "trim" when unset
+    contextPolicy?: ContextPolicy;
+    // Most input tokens a request may use, below the model's context window; unset uses the whole window
+    contextBudget?: number;
+}
+
+// "trim" leaves the oldest turns out of the request, "summarize" folds them into a running summary
+export type ContextPolicy = "trim" | "summarize";
+
+// --- Conversation model ---
+// One message shape shared by every window, the API routes, persistence, import and export
+
+export type MessageRole = "user" | "assistant" | "system";
+
+// Text is the only part type today; other kinds (images, tool calls) get their own `type`
+export type MessagePart = { type: "text"; text: string };
+
+export interface MessageMetadata {
+    provider?: TerminalLLM["provider"];
+    model?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    stopReason?: ChatStopReason;
+    // Set when the reply failed, alongside whatever text streamed before the failure
+    error?: string;
+    // Set on a running summary notice: the id of the last message it covers, see lib/context-budget
+    summaryThroughId?: string;
 }
 
 export interface TerminalMessage {
     id: string;
-    content: string;
-    sender: "user" | "system";
+    // "assistant" is a model reply, "system" a notice from the app that is never sent to a model
+    role: MessageRole;
+    // Who wrote it: "user", the id of the theme or participant that replied, or "system"
+    agentId: string;
+    content: MessagePart[];
     timestamp: Date;
+    metadata?: MessageMetadata;
+    // Message this one follows in a branching conversation, null for the first; see lib/message-tree
+    parentId?: string | null;
+}
+
+// TerminalMessage as it travels over JSON, with an ISO timestamp
+export type SerializedMessage = Omit<TerminalMessage, "timestamp"> & { timestamp: string };
+
+// A terminal's conversation with every branch kept; the window shows the branch ending at `leafId`
+export interface MessageTree {
+    messages: TerminalMessage[];
+    leafId: string | null;
+}
+
+// --- Windows ---
+
+// "terminal" and "v2" windows chat with their theme's model; a "group" window hosts a group chat
+export type WindowKind = "terminal" | "v2" | "group";
+
+// One window on the desktop. Any number of windows can share a theme; `instance` numbers them per theme.
+export interface DesktopWindow {
+    id: string;
+    kind: WindowKind;
+    themeId: string;
+    instance: number;
+    isOpen: boolean;
+    isToolbarMinimized: boolean;
+    // Every message of every branch; terminals branch when a message is edited or a reply regenerated
+    messages: TerminalMessage[];
+    // Last message of the branch on screen; without it, the last message
+    leafId?: string | null;
+    scrollPosition: number;
+    createdAt: number;
+    zIndex: number;
+    // Where the window opens when it is next mounted
+    position: { x: number; y: number };
+    // Group windows only: ids of the terminal windows taking part
+    participants?: string[];
+    // Lines typed into the window, oldest first, recalled with Up/Down and Ctrl+R
+    inputHistory?: string[];
+}
+
+// Window props shared by the terminals and the group chat
+export interface InputHistoryProps {
+    // Lines typed into this window, for history recall, and how a new one is recorded
+    inputHistory?: string[];
+    onInputEntered?: (text: string) => void;
+}
+
+export interface ThemeSwitchProps {
+    // Themes the /theme command can switch to, and how the switch reaches the window manager
+    themes?: TerminalTheme[];
+    onThemeChange?: (themeId: string) => void;
 }
 
-export interface TermWinProps {
+export interface TermWinV2Props extends InputHistoryProps, ThemeSwitchProps {
     id: string;
     theme: TerminalTheme;
     initialPosition: { x: number; y: number };
@@ -35,9 +107,10 @@ export interface TermWinProps {
     zIndex: number;
     initialMessage?: string;
     savedMessages: TerminalMessage[];
+    savedLeafId?: string | null;
     isActive: boolean;
     onClose: () => void;
     onFullscreenChange: (isFullscreen: boolean) => void;
     onFocus: () => void;
-    onSaveState?: (state: { messages: TerminalMessage[]; scrollPosition: number }) => void;
+    onSaveState?: (state: { messages: TerminalMessage[]; leafId?: string | null; scrollPosition: number }) => void;
 }